@@ -1,12 +1,13 @@
 import { join } from "path";
 import { platform, release } from "os";
 import { exec } from "@vscode/sudo-prompt";
-import { copyFileSync, existsSync } from "fs";
+import { copyFileSync, existsSync, readFileSync } from "fs";
 import {
     commands,
     env,
     ExtensionContext,
     InputBoxOptions,
+    MarkdownString,
     StatusBarAlignment,
     StatusBarItem,
     Uri,
@@ -14,15 +15,22 @@ import {
     workspace
 } from "vscode";
 
-import { copyCommand } from "./lib/file";
-import { logInfo, showLogs } from "./lib/log";
+import { copyCommand, fromVscodeFile } from "./lib/file";
+import { logError, logInfo, showLogs } from "./lib/log";
 import { reload } from "./lib/vscode";
 
 import { install, uninstall } from "./extension/writer";
 import { setUserDir } from "./extension/env";
+import { live } from "./extension/inject";
+import { isHidden, isLive, isSafeMode, setActiveEditor, setHidden, setLive, setSafeMode, setStorageDir, step, writeState } from "./extension/runtime";
+import { UI, uis } from "./extension/config";
+import { onReport, startReport } from "./extension/report";
 import { api } from "./extension/api";
 
 import { applyWallpaper } from "./services/wallpaper";
+import { cache, setCacheDir } from "./services/cache";
+import { watchContext } from "./services/context";
+import { startRecovery } from "./services/recovery";
 import { DailyRotationScheduler } from "./services/rotation";
 import { SearchResultItem, SearchTreeProvider, wallhavenSortOptions } from "./sidebar/searchProvider";
 import { CollectionItem, CollectionWallpaperItem, CollectionsTreeProvider } from "./sidebar/collectionsProvider";
@@ -32,6 +40,8 @@ import { WallhavenSort, WallhavenWallpaper } from "./wallhaven/client";
 const forcedDelay = 1000;
 export let installDelay = 7000;
 
+const hiddenKey = "background.hidden";
+
 export const setActive = (active?: boolean): void => {
     statusbar.text = `$(${active === false ? "file-media" : "loading~spin"}) Background`;
 };
@@ -41,10 +51,45 @@ export const statusbar: StatusBarItem = (() => {
     item.command = "workbench.view.extension.background";
     item.name = "Background";
     item.text = "$(file-media) Background";
-    item.tooltip = "Open Background sidebar";
+    item.tooltip = (() => {
+        const tooltip = new MarkdownString("[$(arrow-left) Previous](command:background.previous) | [$(arrow-right) Next](command:background.next) | [$(file-media) Open Background sidebar](command:workbench.view.extension.background)", true);
+        tooltip.isTrusted = { enabledCommands: ["background.previous", "background.next", "workbench.view.extension.background"] };
+        return tooltip;
+    })();
+    return item;
+})();
+
+export const togglebar: StatusBarItem = (() => {
+    const item = window.createStatusBarItem(StatusBarAlignment.Right);
+    item.command = "background.toggle";
+    item.name = "Background Toggle";
     return item;
 })();
 
+const setToggle = (): void => {
+    togglebar.text = `$(${isHidden() ? "eye-closed" : "eye"})`;
+    togglebar.tooltip = isHidden() ? "Show backgrounds" : "Hide backgrounds";
+};
+
+const stepBackground = (direction: 1 | -1) => (ui?: UI): void => {
+    if(!isLive()){
+        window.showWarningMessage("Background is not installed, install it to change backgrounds.", "Install and Reload", "Ignore")
+            .then((value?: string) => {
+                value === "Install and Reload" && commands.executeCommand("background.install");
+            });
+        return;
+    }
+
+    step(direction, ui && uis.includes(ui) ? ui : undefined);
+};
+
+const toggleSafeMode = (): void => {
+    setSafeMode(!isSafeMode());
+    window.showInformationMessage(isSafeMode()
+        ? "Backgrounds are hidden until safe mode is turned off or the window is reloaded."
+        : "Backgrounds are shown again.");
+};
+
 const createCollectionWallpaper = (wallpaper: WallhavenWallpaper): CollectionWallpaper => ({
     id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
     url: wallpaper.full,
@@ -72,6 +117,8 @@ export const activate = async (context: ExtensionContext): Promise<any> => {
     const dir = env.appRoot;
 
     setUserDir(join(context.globalStorageUri.fsPath, "../../../User"));
+    setStorageDir(context.globalStorageUri.fsPath, context.storageUri?.fsPath);
+    setCacheDir(join(context.globalStorageUri.fsPath, "cache"));
 
     if(!dir){
         window.showErrorMessage("Failed to find application directory, please report this issue");
@@ -140,6 +187,17 @@ export const activate = async (context: ExtensionContext): Promise<any> => {
         }
     }
 
+    onReport("broken", ({ui, src}) => logError("background", `Failed to load ${ui} background '${fromVscodeFile(src)}'`));
+    onReport("readability", ({ui, src, opacity, brightness, contrast}) => logInfo("readability", `Adjusted ${ui} background '${fromVscodeFile(src)}' to opacity ${opacity} and brightness ${brightness} for a contrast ratio of ${contrast}`));
+    context.subscriptions.push(await startReport());
+
+    setLive(live(readFileSync(workbench, "utf-8")));
+    setHidden(context.globalState.get<boolean>(hiddenKey, false)); // also writes the state
+    setToggle();
+
+    context.subscriptions.push(startRecovery(context));
+    watchContext().then((disposable) => context.subscriptions.push(disposable)); // the git extension can take a while to activate
+
     const store = new StateStore(context);
     const searchProvider = new SearchTreeProvider();
     const collectionsProvider = new CollectionsTreeProvider(store);
@@ -156,6 +214,14 @@ export const activate = async (context: ExtensionContext): Promise<any> => {
         commands.registerCommand("background.config", () => commands.executeCommand("workbench.view.extension.background")),
         commands.registerCommand("background.help", () => commands.executeCommand("markdown.showPreview", help)),
         commands.registerCommand("background.changelog", () => commands.executeCommand("markdown.showPreview", changelog)),
+        commands.registerCommand("background.next", stepBackground(1)),
+        commands.registerCommand("background.previous", stepBackground(-1)),
+        commands.registerCommand("background.safeMode", toggleSafeMode),
+        commands.registerCommand("background.toggle", () => {
+            setHidden(!isHidden());
+            setToggle();
+            context.globalState.update(hiddenKey, isHidden());
+        }),
 
         commands.registerCommand("background.search.refresh", async () => searchProvider.refresh()),
         commands.registerCommand("background.search.prevPage", async () => searchProvider.prevPage()),
@@ -209,6 +275,7 @@ export const activate = async (context: ExtensionContext): Promise<any> => {
             }
 
             await store.addWallpaper(collection.id, createCollectionWallpaper(wallpaper));
+            cache(wallpaper.full);
             collectionsProvider.refresh();
             window.showInformationMessage(`Added #${wallpaper.id} to '${collection.name}'.`);
         }),
@@ -287,6 +354,7 @@ export const activate = async (context: ExtensionContext): Promise<any> => {
                 url,
                 preview: url
             });
+            cache(url);
             collectionsProvider.refresh();
         }),
         commands.registerCommand("background.collections.removeWallpaper", async (item?: CollectionWallpaperItem) => {
@@ -355,13 +423,23 @@ export const activate = async (context: ExtensionContext): Promise<any> => {
             window.showInformationMessage("Wallpaper rotation deferred until next startup.");
         }),
 
+        workspace.onDidChangeConfiguration((e) => {
+            if(e.affectsConfiguration("background") && !e.affectsConfiguration("background.wallhaven")){
+                writeState();
+            }
+        }),
+
+        window.onDidChangeActiveTextEditor(setActiveEditor),
+
         window.registerTreeDataProvider("background.searchView", searchProvider),
         window.registerTreeDataProvider("background.collectionsView", collectionsProvider),
         scheduler,
-        statusbar
+        statusbar,
+        togglebar
     );
 
     statusbar.show();
+    togglebar.show();
 
     await scheduler.initialize();
     await searchProvider.refresh();
@@ -32,6 +32,10 @@ export const api = {
                 case "editor":
                 case "sidebar":
                 case "panel":
+                case "terminal":
+                case "statusbar":
+                case "activitybar":
+                case "titlebar":
                     return get(ui);
                 default:
                     return undefined;
@@ -46,6 +50,10 @@ export const api = {
                 case "editor":
                 case "sidebar":
                 case "panel":
+                case "terminal":
+                case "statusbar":
+                case "activitybar":
+                case "titlebar":
                     await add(ui, glob, true);
                     return true;
                 default:
@@ -61,6 +69,10 @@ export const api = {
                 case "editor":
                 case "sidebar":
                 case "panel":
+                case "terminal":
+                case "statusbar":
+                case "activitybar":
+                case "titlebar":
                     await replace(ui, old, glob, true);
                     return true;
                 default:
@@ -76,6 +88,10 @@ export const api = {
                 case "editor":
                 case "sidebar":
                 case "panel":
+                case "terminal":
+                case "statusbar":
+                case "activitybar":
+                case "titlebar":
                     await remove(ui, glob, true);
                     return true;
                 default:
@@ -19,30 +19,68 @@
 import { ConfigurationScope, ConfigurationTarget, WorkspaceConfiguration, commands, window, workspace } from "vscode";
 
 import { ConfigurationKey, Properties, getConfigurationProperty } from "./package";
+import { isLive } from "./runtime";
 
 import { round } from "../lib/math";
-import { sanitizeUnits } from "../lib/css";
+import { sanitizeColor, sanitizeUnits } from "../lib/css";
 import { CommandQuickPickItem } from "../lib/vscode";
 
 // UI
 
-export type UI = "window" | "editor" | "sidebar" | "panel";
+export type UI = "window" | "editor" | "sidebar" | "panel" | "terminal" | "statusbar" | "activitybar" | "titlebar";
 
-const Index: (ui: UI) => 0 | 1 | 2 | 3 = (ui: UI) => {
+export const uis: UI[] = ["window", "editor", "sidebar", "panel", "terminal", "statusbar", "activitybar", "titlebar"];
+
+type Index = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7;
+
+const Index: (ui: UI) => Index = (ui: UI) => {
     return {
         "window": 0,
         "editor": 1,
         "sidebar": 2,
-        "panel": 3
-    }[ui] as 0 | 1 | 2 | 3;
+        "panel": 3,
+        "terminal": 4,
+        "statusbar": 5,
+        "activitybar": 6,
+        "titlebar": 7
+    }[ui] as Index;
+}
+
+// filter
+
+export const filters: {key: ConfigurationKey, css: string, label: string}[] = [
+    {key: "backgroundGrayscale",  css: "grayscale",  label: "Grayscale"},
+    {key: "backgroundSaturate",   css: "saturate",   label: "Saturate"},
+    {key: "backgroundHueRotate",  css: "hue-rotate", label: "Hue Rotate"},
+    {key: "backgroundBrightness", css: "brightness", label: "Brightness"},
+    {key: "backgroundContrast",   css: "contrast",   label: "Contrast"},
+    {key: "backgroundSepia",      css: "sepia",      label: "Sepia"},
+    {key: "backgroundInvert",     css: "invert",     label: "Invert"}
+];
+
+// theme
+
+export type Theme = "light" | "dark" | "highContrast" | "highContrastLight";
+
+export const themes: Theme[] = ["light", "dark", "highContrast", "highContrastLight"];
+
+export const getTheme: (theme: Theme, ui: UI) => {backgrounds?: string[], opacity?: number} = (theme: Theme, ui: UI) => {
+    const set: any = get("themeBackgrounds")?.[theme] ?? {};
+    const opacity: any = Array.isArray(set.backgroundOpacity) ? set.backgroundOpacity[Index(ui)] : undefined;
+
+    return {
+        backgrounds: Array.isArray(set[`${ui}Backgrounds`]) ? set[`${ui}Backgrounds`] : undefined, // unset uses regular backgrounds
+        opacity: typeof opacity === "number" ? Math.min(Math.max(opacity, 0), 1) : undefined
+    };
 }
 
 export const configuration: (scope?: ConfigurationScope | null) => WorkspaceConfiguration = (scope?: ConfigurationScope | null) => workspace.getConfiguration("background", scope);
 
 export const target: () => ConfigurationTarget = () => configuration().get("settingScope") === "Workspace" && workspace.workspaceFolders ? ConfigurationTarget.Workspace : ConfigurationTarget.Global;
 
-export const notify: () => void = () =>
-    window.showWarningMessage("Background has been modified, a reinstall is required to see changes.", "Install and Reload", "Ignore")
+export const notify: (key?: ConfigurationKey) => void = (key?: ConfigurationKey) =>
+    // installed script already reads runtime settings from the state file
+    !(key && isLive(key)) && window.showWarningMessage("Background has been modified, a reinstall is required to see changes.", "Install and Reload", "Ignore")
         .then((value?: string) => {
             value === "Install and Reload" && commands.executeCommand("background.install")
         });
@@ -66,7 +104,7 @@ export const get: (key: ConfigurationKey, options?: {
 
     // default override for inverted
     if(key === "backgroundOpacity" && get("useInvertedOpacity")){
-        values.default = [0.9, 0.9, 0.9, 0.9];
+        values.default = uis.map(() => 0.9);
     }
 
     let value: any;
@@ -81,7 +119,7 @@ export const get: (key: ConfigurationKey, options?: {
         if(values.default.length === 0){ // backgrounds[]
             return value;
         }else if(ui){ // background setting[,,,]
-            return value[Index(ui!)];
+            return value[Index(ui!)] ?? (includeDefault ? values.default[Index(ui!)] : undefined); // settings from before a UI was added
         }
     }
 
@@ -110,12 +148,31 @@ export const getCSS: (key: ConfigurationKey, ui: UI) => string = (key: Configura
                 case prop.items!.enum![9]: return sanitizeUnits(get("backgroundAlignmentValue", {ui}));
             }
         }
-        case "backgroundBlur": {
-            return sanitizeUnits(value);
+        case "backgroundBlur":
+        case "backgroundGrayscale":
+        case "backgroundSaturate":
+        case "backgroundHueRotate":
+        case "backgroundBrightness":
+        case "backgroundContrast":
+        case "backgroundSepia":
+        case "backgroundInvert": {
+            return sanitizeUnits(value ?? "");
         }
         case "backgroundOpacity": {
             return !isNaN(+value) ? round(+value, 2) : prop.default[0];
         }
+        case "backgroundOverlay": {
+            const opacity: number = +get("backgroundOverlayOpacity", {ui});
+            const color: string = `color-mix(in srgb, ${sanitizeColor(get("backgroundOverlayColor", {ui}) ?? "") || "transparent"} ${round(Math.min(Math.max(isNaN(opacity) ? 0.5 : opacity, 0), 1) * 100, 0)}%, transparent)`;
+
+            switch(value){
+                case prop.items!.enum![1]: return `linear-gradient(${color}, ${color})`;
+                case prop.items!.enum![2]: return `linear-gradient(to bottom, ${color}, transparent)`;
+                case prop.items!.enum![3]: return `radial-gradient(circle, ${color}, transparent)`;
+                case prop.items!.enum![4]: return `radial-gradient(ellipse at center, transparent 50%, ${color})`;
+                default: return "";
+            }
+        }
         case "backgroundRepeat": {
             switch(value){
                 case prop.items!.enum![0]: return "no-repeat";
@@ -151,18 +208,18 @@ export const update: (key: ConfigurationKey, value: any, ui?: UI, skipNotificati
     }else{
         const current: any = get(key);
 
-        // populate default if current array is not length 4
-        for(let i = current.length; i < 4; i++)
-            current.push(getConfigurationProperty(key).default[0]);
+        // populate default if current array is missing UIs
+        for(let i = current.length; i < uis.length; i++)
+            current.push(getConfigurationProperty(key).default[i]);
 
-        const i: 0 | 1 | 2 | 3 = Index(ui);
+        const i: Index = Index(ui);
 
         changed = current[i] !== value;
         current[i] = value;
 
         await configuration().update(key, current, target()); // update to target
     }
-    skipNotification === false && changed && notify();
+    skipNotification === false && changed && notify(key);
 }
 
 export const updateFromLabel: (key: ConfigurationKey, item: CommandQuickPickItem, ui?: UI) => Promise<void> = async (key: ConfigurationKey, item: CommandQuickPickItem, ui?: UI) => {
@@ -16,11 +16,11 @@
  * 51 Franklin Street, Fifth Floor, Boston, MA 02110-1301 USA.
  */
 
-import { round } from "../lib/math";
+import { UI, get, uis } from "./config";
+import { getState, getStorageDir, stateName } from "./runtime";
 
-import { get, getCSS } from "./config";
 import { sanitizeCSS } from "../lib/css";
-import { resolve } from "../lib/glob";
+import { vscodeFile } from "../lib/file";
 
 const identifier: string = "KatsuteDev/Background";
 
@@ -30,7 +30,11 @@ const partition: RegExp = new RegExp(`^\\/\\* ${identifier}-start \\*\\/$` +
 
 // extensions https://github.com/microsoft/vscode/blob/main/src/vs/platform/protocol/electron-main/protocolMainService.ts#L27
 
-export const extensions: () => string[] = () => ["png", "jpg", "jpeg", "webp", "gif", "bmp", "svg"];
+export const extensions: () => string[] = () => ["png", "jpg", "jpeg", "webp", "gif", "bmp", "svg", ...videoExtensions()];
+
+// only mp4 is served outside of the app, extensions, and extension storage roots, webm files outside of them are skipped, see isPlayable in glob.ts
+
+export const videoExtensions: () => string[] = () => ["mp4", "webm"];
 
 // inject
 
@@ -43,20 +47,73 @@ export const inject: (content: string) => string = (content: string) =>
 export const clean: (content: string) => string = (s: string) =>
     s.replace(partition, "").trim();
 
+// installed script reads settings from the state file
+
+export const live: (content: string) => boolean = (content: string) =>
+    !!content.match(partition) && content.includes(stateName);
+
 // javascript
 
 const getJavaScript: () => string = () => {
-    const images: {[key: string]: string[]} = {
-        window:  resolve(get("windowBackgrounds")),
-        editor:  resolve(get("editorBackgrounds")),
-        sidebar: resolve(get("sidebarBackgrounds")),
-        panel:   resolve(get("panelBackgrounds"))
-    };
-
     const after: boolean = get("renderContentAboveBackground");
     const under: boolean = get("renderTextAboveBackground");
 
     const bodySel: string = under || !after ? `::before` : ` > div[role=application] > div.monaco-grid-view::after`;
+    const bodyVideo: string = under || !after ? `body` : `body > div[role=application] > div.monaco-grid-view`;
+
+    // every layer that a background is drawn on
+    const layers: {[ui in UI]: string[]} = {
+        window: [
+            `body${bodySel}`,
+            `body video.bk-window-video`,
+            `body div.bk-window-collage`
+        ],
+        editor: [
+            `.split-view-view > .editor-group-container::after`,
+            `.split-view-view > .editor-group-container > video.bk-editor-video`
+        ],
+        sidebar: [
+            `.split-view-view > .part.sidebar::after`,
+            `.split-view-view > .part.auxiliarybar::after`,
+            `.split-view-view > .part.sidebar > video.bk-sidebar-video`,
+            `.split-view-view > .part.auxiliarybar > video.bk-sidebar-video`,
+            `.split-view-view > .part.sidebar > div.bk-sidebar-collage`,
+            `.split-view-view > .part.auxiliarybar > div.bk-sidebar-collage`
+        ],
+        panel: [
+            `.split-view-view > .part.panel::after`,
+            `.split-view-view > .part.panel > video.bk-panel-video`,
+            `.split-view-view > .part.panel > div.bk-panel-collage`
+        ],
+        terminal: [
+            `.split-view-view:has(> .pane > .pane-body.integrated-terminal)::after`,
+            `.split-view-view:has(> .pane > .pane-body.integrated-terminal) > video.bk-terminal-video`,
+            `.split-view-view:has(> .pane > .pane-body.integrated-terminal) > div.bk-terminal-collage`
+        ],
+        statusbar: [
+            `.split-view-view > .part.statusbar::after`,
+            `.split-view-view > .part.statusbar > video.bk-statusbar-video`,
+            `.split-view-view > .part.statusbar > div.bk-statusbar-collage`
+        ],
+        activitybar: [
+            `.split-view-view > .part.activitybar::after`,
+            `.split-view-view > .part.activitybar > video.bk-activitybar-video`,
+            `.split-view-view > .part.activitybar > div.bk-activitybar-collage`
+        ],
+        titlebar: [
+            `.split-view-view > .part.titlebar::after`,
+            `.split-view-view > .part.titlebar > video.bk-titlebar-video`,
+            `.split-view-view > .part.titlebar > div.bk-titlebar-collage`
+        ]
+    };
+
+    // shown over the whole editor part while no editor is open
+    const empty: string = `.split-view-view > .part.editor::after`;
+
+    // overlays are separate elements right above the layers of their UI, the window layer behind the content is first in the body so its overlay only has to follow it
+    const overlayIndex: (ui: UI) => string = (ui: UI) => !after && !under ? "1001" : ui === "window" && under ? "auto" : "1";
+
+    const storage: {global: string, workspace: string, folder: string} = getStorageDir();
 
     return `(() => {` +
 // shared background css
@@ -82,21 +139,7 @@ bk_global.appendChild(document.createTextNode(\`
     }`
     }
 
-    body[windowTransition="true"]${bodySel},
-    body[editorTransition="true"] .split-view-view > .editor-group-container::after,
-    body[sidebarTransition="true"] .split-view-view > .part.sidebar::after,
-    body[sidebarTransition="true"] .split-view-view > .part.auxiliarybar::after,
-    body[panelTransition="true"] .split-view-view > .part.panel::after {
-
-        opacity: 0;
-
-    }
-
-    body${bodySel},
-    .split-view-view > .editor-group-container::after,
-    .split-view-view > .part.sidebar::after,
-    .split-view-view > .part.auxiliarybar::after,
-    .split-view-view > .part.panel::after {
+    ${[...uis.map(ui => layers[ui].join(",\n    ")), empty].join(",\n    ")} {
 
         content: "";
 
@@ -111,302 +154,1260 @@ bk_global.appendChild(document.createTextNode(\`
 
         pointer-events: none;
 
-        transition: opacity 1s ease-in-out;
-
         image-rendering: ${get("smoothImageRendering") ? "auto" : "pixelated"};
 
     }
+
+    div.bk-overlay {
+
+        top: 0;
+
+        width: 100%;
+        height: 100%;
+
+        position: absolute;
+
+        pointer-events: none;
+
+    }
+
+    ${uis.map(ui => `div.bk-${ui}-overlay { z-index: ${overlayIndex(ui)}; }`).join("\n    ")}
 \`));
 `
-+ // background image cache
++ // notification overrides
 `
-const windowBackgrounds = [${images.window.join(',')}];
-const editorBackgrounds = [${images.editor.join(',')}];
-const sidebarBackgrounds = [${images.sidebar.join(',')}];
-const panelBackgrounds = [${images.panel.join(',')}];
+bk_global.appendChild(document.createTextNode(\`
+    div.notification-toast:has(> div.notifications-list-container > div.monaco-list[aria-label*="Your Code installation appears to be corrupt. Please reinstall., notification"]),
+    div.notification-toast:has(> div.notifications-list-container > div.monaco-list[aria-label*="Your Code - Insiders installation appears to be corrupt. Please reinstall., notification"]) {
 
-const iWindowBackgrounds = [...Array(${images.window.length}).keys()];
-const iEditorBackgrounds = [...Array(${images.editor.length}).keys()];
-const iSidebarBackgrounds = [...Array(${images.sidebar.length}).keys()];
-const iPanelBackgrounds = [...Array(${images.panel.length}).keys()];
+        display: none;
+
+    }
+
+    div.monaco-list-row[aria-label$=", source: Background (Extension), notification"],
+    div.monaco-list-row[aria-label$=", source: Background (Extension), notification"]:hover {
 
-const windowTime = ${get("backgroundChangeTime", {ui: "window"}) === 0 ? 0 : Math.max(round(get("backgroundChangeTime", {ui: "window"}), 2), 5)};
-const editorTime = ${get("backgroundChangeTime", {ui: "editor"}) === 0 ? 0 : Math.max(round(get("backgroundChangeTime", {ui: "editor"}), 2), 5)};
-const sidebarTime = ${get("backgroundChangeTime", {ui: "sidebar"}) === 0 ? 0 : Math.max(round(get("backgroundChangeTime", {ui: "sidebar"}), 2), 5)};
-const panelTime = ${get("backgroundChangeTime", {ui: "panel"}) === 0 ? 0 : Math.max(round(get("backgroundChangeTime", {ui: "panel"}), 2), 5)};
+        background-color: #0098FF !important;
+        color: white !important;
+
+    }
+
+    div.monaco-list-row[aria-label$=", source: Background (Extension), notification"] ::before {
+
+        color: white;
+
+    }
+\`));
 `
-+ // individual background css - window
++ // custom user css
 `
-if(windowBackgrounds.length > 0){
-    bk_global.appendChild(document.createTextNode(\`
-        body${bodySel} {
+bk_global.appendChild(document.createTextNode("${sanitizeCSS(get("CSS"))}"));
+`
++ // runtime state
+`
+const bk_uis = ${JSON.stringify(uis)};
+const bk_layers = ${JSON.stringify(layers)};
 
-            background-position: ${getCSS("backgroundAlignment", "window")};
-            background-repeat: ${getCSS("backgroundRepeat", "window")};
-            background-size: ${getCSS("backgroundSize", "window")};
+// empty windows have no workspace storage and share the global state
+const bk_workspace = (() => {
+    const workspace = globalThis.vscode?.context?.configuration()?.workspace;
+    return workspace && (workspace.uri || workspace.configPath) ? workspace.id : undefined;
+})();
 
-            opacity: ${under ? 1 : round(get("useInvertedOpacity") ? 1 - +getCSS("backgroundOpacity", "window") : +getCSS("backgroundOpacity", "window"), 2)};
+const bk_file = bk_workspace
+    ? "${vscodeFile(storage.workspace)}/" + bk_workspace + "/${storage.folder}/${stateName}"
+    : "${vscodeFile(storage.global)}/${stateName}";
 
-            filter: blur(${getCSS("backgroundBlur", "window")}) ${!under ? "" : `brightness(${round(get("useInvertedOpacity") ? 1 - +getCSS("backgroundOpacity", "window") : +getCSS("backgroundOpacity", "window"), 2)})`};
+let bk_state = ${JSON.stringify(getState())};
+`
++ // background targets
+`
+const bk_targets = {
+    window: (len) => ["body${bodySel}"],
+    editor: (len) => [...Array(Math.min(len, 10)).keys()].map((i) => \`.part.editor :not(.split-view-container) .split-view-container > .split-view-view:nth-child(\${Math.min(len, 10)}n+\${i+1}) > .editor-group-container::after\`),
+    sidebar: (len) => [".split-view-view > .part.sidebar::after", ".split-view-view > .part.auxiliarybar::after"],
+    panel: (len) => [".split-view-view > .part.panel::after"],
+    terminal: (len) => [".split-view-view:has(> .pane > .pane-body.integrated-terminal)::after"],
+    statusbar: (len) => [".split-view-view > .part.statusbar::after"],
+    activitybar: (len) => [".split-view-view > .part.activitybar::after"],
+    titlebar: (len) => [".split-view-view > .part.titlebar::after"]
+};
 
-        }
-    \`));
+const bk_containers = {
+    window: () => [[document.querySelector("${bodyVideo}"), 0]],
+    editor: () => [...document.querySelectorAll(".part.editor .split-view-container > .split-view-view > .editor-group-container")]
+        .map((group) => [group, Array.prototype.indexOf.call(group.parentElement.parentElement.children, group.parentElement)]),
+    sidebar: () => [[document.querySelector(".split-view-view > .part.sidebar"), 0], [document.querySelector(".split-view-view > .part.auxiliarybar"), 1]],
+    panel: () => [[document.querySelector(".split-view-view > .part.panel"), 0]],
+    terminal: () => [[document.querySelector(".split-view-view:has(> .pane > .pane-body.integrated-terminal)"), 0]],
+    statusbar: () => [[document.querySelector(".split-view-view > .part.statusbar"), 0]],
+    activitybar: () => [[document.querySelector(".split-view-view > .part.activitybar"), 0]],
+    titlebar: () => [[document.querySelector(".split-view-view > .part.titlebar"), 0]]
 };
 `
-+ // individual background css - editor
++ // background css
 `
-if(editorBackgrounds.length > 0){
-    bk_global.appendChild(document.createTextNode(\`
-        .split-view-view > .editor-group-container::after {
+const bk_style = {};
+const bk_image = {};
+const bk_index = {};
+const bk_current = {};
+const bk_shown = {};
+const bk_history = {};
+const bk_timer = {};
+
+for(const ui of bk_uis){
+    bk_style[ui] = document.createElement("style");
+    bk_style[ui].id = \`${identifier}-\${ui}\`;
+    bk_style[ui].setAttribute("type", "text/css");
+
+    bk_image[ui] = document.createElement("style");
+    bk_image[ui].id = \`${identifier}-\${ui}-images\`;
+    bk_image[ui].setAttribute("type", "text/css");
+
+    bk_index[ui] = [];
+    bk_current[ui] = [];
+    bk_shown[ui] = [];
+    bk_history[ui] = {back: [], forward: []};
+};
+
+const bk_effects = {
+    slide: ["translateX(-5%)", "translateX(5%)"],
+    zoom: ["scale(1.1)", "scale(0.95)"]
+};
 
-            background-position: ${getCSS("backgroundAlignment", "editor")};
-            background-repeat: ${getCSS("backgroundRepeat", "editor")};
-            background-size: ${getCSS("backgroundSize", "editor")};
+// layers while the body has an attribute
+const attributeLayers = (ui, attribute) => bk_layers[ui].map((layer) => layer.startsWith("body")
+    ? layer.replace(/^body/, \`body\${attribute}\`)
+    : \`body\${attribute} \${layer}\`).join(",");
 
-            opacity: ${round(get("useInvertedOpacity") ? 1 - +getCSS("backgroundOpacity", "editor") : +getCSS("backgroundOpacity", "editor"), 2)};
+const transitionLayers = (ui, value) => attributeLayers(ui, \`[\${ui}Transition="\${value}"]\`);
 
-            filter: blur(${getCSS("backgroundBlur", "editor")});
+const image = (ui, src) => src && !isVideo(src) ? source(src) : "none";
+
+// css only backgrounds are used as is
+const source = (src) => src.startsWith("css:") ? src.slice(4) : url(src);
+
+// per image overrides, opacity is read by the layer itself so that transitions still hide it
+const display = (ui, src) => {
+    const options = bk_state.display[src] || {};
+    const guard = readability(ui, src);
+    const opacity = guard ? guard.opacity : options.opacity;
+
+    return [
+        options.size && \`background-size: \${options.size};\`,
+        options.position && \`background-position: \${options.position};\`,
+        opacity !== undefined && \`--bk-opacity: \${opacity};\`,
+        guard && \`--bk-brightness: \${guard.brightness};\`
+    ].filter(Boolean).join("");
+};
+
+const url = (src) => \`url("\${src.replace(/"/g, \`\\\\"\`)}")\`;
+
+// per image overrides are set on the tiles of a collage, so the tiles take the opacity and filters instead of the layer
+const opacity = (ui) => ui === "window" && ${under} ? 1 : \`var(--bk-opacity, \${bk_state[ui].opacity})\`;
+
+const filter = (ui) => [
+    ...Object.entries(bk_state[ui].filters)
+        .filter(([, value]) => value.trim())
+        .map(([name, value]) => \`\${name}(\${value})\`),
+    ui === "window" && ${under} && \`brightness(\${bk_state[ui].opacity})\`,
+    bk_state.guard && "brightness(var(--bk-brightness, 1))"
+].filter(Boolean).join(" ") || "none";
+
+const setStyle = (ui) => {
+    const state = bk_state[ui];
+    const effect = bk_effects[state.transition];
+
+    bk_style[ui].textContent = state.backgrounds.length === 0 && !state.rule ? "" : \`
+        \${bk_layers[ui].join(",")} {
+
+            background-position: \${state.alignment};
+            background-repeat: \${state.repeat};
+            background-size: \${state.size};
+
+            object-position: \${state.alignment};
+            object-fit: \${state.fit};
+
+            opacity: \${state.collage ? 1 : opacity(ui)};
+
+            filter: \${state.collage ? "none" : filter(ui)};
+
+            transition: \${[
+                ...(state.transition === "none" ? [] : ["opacity", state.transition === "crossfade" && "background-image", effect && "transform"]
+                    .filter(Boolean)
+                    .map((property) => \`\${property} \${state.duration}s ease-in-out\`)),
+                state.animation === "parallax" && "translate 0.2s ease-out"
+            ].filter(Boolean).join(",") || "none"};
 
         }
-    \`));
+
+        \${animation(ui)}
+
+        \${collage(ui)}
+
+        \${!state.overlay ? "" : \`div.bk-\${ui}-overlay {
+
+            background-image: \${state.overlay};
+
+        }\`}
+
+        \${transitionLayers(ui, true)} {
+
+            opacity: 0;
+            \${effect ? \`transform: \${effect[0]};\` : ""}
+
+        }
+
+        \${!effect ? "" : \`\${transitionLayers(ui, "enter")} {
+
+            opacity: 0;
+            transform: \${effect[1]};
+            transition: none;
+
+        }\`}
+    \`;
 };
 `
-+ // individual background css - sidebar
++ // animation
 `
-if(sidebarBackgrounds.length > 0){
-    bk_global.appendChild(document.createTextNode(\`
-        .split-view-view > .part.sidebar::after,
-        .split-view-view > .part.auxiliarybar::after {
+// scale and translate are separate from the transform used by slide and zoom transitions
+const animation = (ui) => {
+    const {animation: type, speed, amplitude} = bk_state[ui];
+    const layers = bk_layers[ui].join(",");
+    const a = amplitude / 100;
+
+    return type === "none" || a === 0 ? "" : \`
+        @media (prefers-reduced-motion: no-preference) {
+
+            \${type === "kenburns" ? \`
+                @keyframes bk-\${ui}-kenburns {
+                    from { scale: 1; translate: 0 0; }
+                    to { scale: \${1 + a}; translate: \${-a * 50}% \${-a * 25}%; }
+                }
 
-            background-position: ${getCSS("backgroundAlignment", "sidebar")};
-            background-repeat: ${getCSS("backgroundRepeat", "sidebar")};
-            background-size: ${getCSS("backgroundSize", "sidebar")};
+                \${layers} {
 
-            opacity: ${round(get("useInvertedOpacity") ? 1 - +getCSS("backgroundOpacity", "sidebar") : +getCSS("backgroundOpacity", "sidebar"), 2)};
+                    animation: bk-\${ui}-kenburns \${speed}s ease-in-out infinite alternate;
 
-            filter: blur(${getCSS("backgroundBlur", "sidebar")});
+                }
+
+                \${attributeLayers(ui, \`[backgroundPaused="true"]\`)} {
+
+                    animation-play-state: paused;
+
+                }
+            \` : \`
+                \${layers} {
+
+                    scale: \${1 + a};
+                    translate: 0 calc((0.5 - var(--bk-parallax, 0)) * \${a * 100}%);
+
+                }
+            \`}
 
         }
-    \`));
+    \`;
+};
+
+const bk_parallax = {pending: false};
+
+// scroll position of the active editor from 0 to 1
+const setParallax = () => {
+    const scrollbar = document.querySelector(".editor-group-container.active .monaco-editor .scrollbar.vertical");
+    const slider = scrollbar && scrollbar.querySelector(".slider");
+    const position = slider ? slider.offsetTop / Math.max(scrollbar.clientHeight - slider.clientHeight, 1) : 0;
+
+    document.body.style.setProperty("--bk-parallax", Math.min(Math.max(position, 0), 1));
 };
+
+const scheduleParallax = () => {
+    if(!bk_parallax.pending && bk_uis.some((ui) => bk_state[ui].animation === "parallax")){
+        bk_parallax.pending = true;
+        setTimeout(() => {
+            bk_parallax.pending = false;
+            setParallax();
+        }, 50);
+    };
+};
+
+for(const event of ["wheel", "keydown", "mouseup", "focusin"]){
+    document.addEventListener(event, scheduleParallax, {capture: true, passive: true});
+};
+
+// animations are paused while the window is not focused
+window.addEventListener("blur", () => document.body.setAttribute("backgroundPaused", true));
+window.addEventListener("focus", () => document.body.setAttribute("backgroundPaused", false));
 `
-+ // individual background css - panel
++ // hide
 `
-if(panelBackgrounds.length > 0){
-    bk_global.appendChild(document.createTextNode(\`
-        .split-view-view > .part.panel::after {
+// hides every layer regardless of its opacity or z-index, see background.safeMode and background.toggle
+bk_global.appendChild(document.createTextNode(\`
+    \${bk_uis.map((ui) => attributeLayers(ui, \`[backgroundHidden="true"]\`)).join(",")},
+    body[backgroundHidden="true"] div.bk-overlay,
+    body[backgroundHidden="true"] ${empty} {
+
+        display: none !important;
 
-            background-position: ${getCSS("backgroundAlignment", "panel")};
-            background-repeat: ${getCSS("backgroundRepeat", "panel")};
-            background-size: ${getCSS("backgroundSize", "panel")};
+    }
+\`));
 
-            opacity: ${round(get("useInvertedOpacity") ? 1 - +getCSS("backgroundOpacity", "panel") : +getCSS("backgroundOpacity", "panel"), 2)};
+// zen mode only counts when zenMode.fullScreen also makes the window full screen
+const isFullScreen = () => !!document.querySelector(".monaco-workbench.fullscreen");
 
-            filter: blur(${getCSS("backgroundBlur", "panel")});
+const checkHidden = () => document.body.setAttribute("backgroundHidden", !!(bk_state.safe || bk_state.hidden || (bk_state.autoHide && isFullScreen())));
+
+window.addEventListener("resize", checkHidden);
+`
++ // background image
+`
+// collages draw each background on its own tile
+const targets = (ui) => bk_state[ui].collage
+    ? [...Array(bk_state[ui].collage.tiles).keys()].map((i) => \`.bk-\${ui}-collage > div:nth-child(\${i + 1})\`)
+    : bk_targets[ui](bk_state[ui].backgrounds.length);
+
+const pick = (ui, moves) => {
+    const backgrounds = bk_state[ui].backgrounds;
+    const count = targets(ui).length;
+
+    bk_shown[ui] = backgrounds.length === 0 ? [] : moves === 0 ? (bk_state.sync ? synced(ui, count) : next(ui, count, false)) : move(ui, count, moves);
+
+    return bk_shown[ui].map((i) => backgrounds[i]);
+};
+
+const setBackground = (ui, srcs) => {
+    const selectors = targets(ui);
+
+    bk_current[ui] = srcs;
+
+    bk_image[ui].textContent = bk_current[ui].map((src, i) => !src ? "" : \`
+        \${selectors[i]} {
+
+            background-image: \${image(ui, src)};
+            \${display(ui, src)}
 
         }
-    \`));
+    \`).join("");
+
+    syncVideos();
+    measure(srcs, () => bk_current[ui] === srcs && setBackground(ui, srcs));
 };
 `
-+ // notification overrides
++ // fallback
 `
-bk_global.appendChild(document.createTextNode(\`
-    div.notification-toast:has(> div.notifications-list-container > div.monaco-list[aria-label*="Your Code installation appears to be corrupt. Please reinstall., notification"]),
-    div.notification-toast:has(> div.notifications-list-container > div.monaco-list[aria-label*="Your Code - Insiders installation appears to be corrupt. Please reinstall., notification"]) {
+const bk_broken = new Set();
+const bk_load = {};
+const bk_retries = 3;
+
+const bk_decoded = new Map();
+const bk_decodeSize = 8;
+const bk_decodeTimeout = 10;
+
+// decoded images stay referenced until they fall out of the queue, so the swap does not decode them again
+const decode = (src) => {
+    const cached = bk_decoded.get(src);
+
+    if(cached){
+        bk_decoded.delete(src);
+        bk_decoded.set(src, cached);
+        return cached.decoded;
+    };
 
-        display: none;
+    const image = new Image();
+    image.decoding = "async";
+    image.src = src;
 
-    }
+    const decoded = image.decode().then(() => true, () => false);
+    // failed images are decoded again on the next retry
+    decoded.then((ok) => {
+        if(!ok && bk_decoded.get(src)?.image === image){
+            bk_decoded.delete(src);
+        };
+    });
 
-    div.monaco-list-row[aria-label$=", source: Background (Extension), notification"],
-    div.monaco-list-row[aria-label$=", source: Background (Extension), notification"]:hover {
+    bk_decoded.set(src, {image, decoded});
+    for(const key of bk_decoded.keys()){
+        bk_decoded.size > bk_decodeSize && bk_decoded.delete(key);
+    };
 
-        background-color: #0098FF !important;
-        color: white !important;
+    return decoded;
+};
 
-    }
+// slow images and videos are shown anyway once the timeout is hit rather than holding the rotation back
+const preload = (src) => new Promise((resolve) => {
+    if(src.startsWith("css:")){
+        resolve(true);
+        return;
+    }else if(bk_broken.has(src)){
+        resolve(false);
+        return;
+    };
 
-    div.monaco-list-row[aria-label$=", source: Background (Extension), notification"] ::before {
+    setTimeout(() => resolve(true), bk_decodeTimeout * 1000);
 
-        color: white;
+    if(!isVideo(src)){
+        decode(src).then(resolve);
+        return;
+    };
 
-    }
-\`));
+    const media = document.createElement("video");
+
+    media.onerror = () => resolve(false);
+    media.preload = "metadata";
+    media.onloadedmetadata = () => resolve(true);
+    media.src = src;
+});
+
+const broken = (ui, src) => {
+    if(!bk_broken.has(src)){
+        bk_broken.add(src);
+        report({type: "broken", ui, src});
+    };
+};
+
+const load = async (ui, moves) => {
+    const token = bk_load[ui] = (bk_load[ui] || 0) + 1;
+    const backgrounds = bk_state[ui].backgrounds;
+    const previous = bk_current[ui].filter((src) => src && !bk_broken.has(src));
+
+    for(let attempt = 0; ; attempt++){
+        const srcs = pick(ui, attempt === 0 ? moves : 1);
+        const loaded = await Promise.all(srcs.map(preload));
+
+        // superseded by a newer change
+        if(token !== bk_load[ui]){
+            return null;
+        };
+
+        srcs.forEach((src, i) => loaded[i] || broken(ui, src));
+
+        if(loaded.every(Boolean)){
+            return srcs;
+        }else if(attempt >= bk_retries || backgrounds.every((src) => bk_broken.has(src))){
+            // use the placeholder or keep what was shown before
+            return srcs.map((src, i) => loaded[i] ? src : bk_state.placeholder || (previous.length > 0 ? previous[i % previous.length] : null));
+        };
+    };
+};
 `
-+ // custom user css
++ // readability
 `
-bk_global.appendChild(document.createTextNode("${sanitizeCSS(get("CSS"))}"));
+const bk_luminance = {};
+const bk_samples = {};
+const bk_adjusted = new Set();
+
+const bk_canvas = document.createElement("canvas");
+bk_canvas.width = 32;
+bk_canvas.height = 32;
+
+const luminance = (r, g, b) => [r, g, b]
+    .map((c) => c / 255)
+    .map((c) => c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4))
+    .reduce((sum, c, i) => sum + c * [0.2126, 0.7152, 0.0722][i], 0);
+
+// any css color, the canvas converts it to rgb
+const colorLuminance = (color) => {
+    if(!color){
+        return null;
+    };
+
+    const context = bk_canvas.getContext("2d", {willReadFrequently: true});
+    context.clearRect(0, 0, 1, 1);
+    context.fillStyle = color;
+    context.fillRect(0, 0, 1, 1);
+
+    const [r, g, b] = context.getImageData(0, 0, 1, 1).data;
+    return luminance(r, g, b);
+};
+
+// average luminance and its deviation, remote images without cors cannot be read
+const sample = (src) => bk_samples[src] ??= new Promise((resolve) => {
+    if(src.startsWith("css:") || isVideo(src)){
+        resolve(null);
+        return;
+    };
+
+    const img = new Image();
+
+    img.onerror = () => resolve(null);
+    img.onload = () => {
+        try{
+            const context = bk_canvas.getContext("2d", {willReadFrequently: true});
+            context.clearRect(0, 0, 32, 32);
+            context.drawImage(img, 0, 0, 32, 32);
+
+            const data = context.getImageData(0, 0, 32, 32).data;
+            const values = [];
+
+            for(let i = 0; i < data.length; i += 4){
+                values.push(luminance(data[i], data[i + 1], data[i + 2]));
+            };
+
+            const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+            const deviation = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+
+            resolve({mean, deviation});
+        }catch(e){
+            resolve(null);
+        };
+    };
+
+    img.src = src;
+});
+
+const measure = (srcs, render) => {
+    const missing = !bk_state.guard ? [] : srcs.filter((src) => src && !(src in bk_luminance));
+
+    if(missing.length > 0){
+        Promise.all(missing.map((src) => sample(src).then((stats) => bk_luminance[src] = stats))).then(render);
+    };
+};
+
+// brightness and opacity that keep the editor text above the minimum contrast ratio
+const readability = (ui, src) => {
+    const stats = bk_luminance[src];
+
+    if(!bk_state.guard || !stats || (ui === "window" && ${under})){
+        return null;
+    };
+
+    const style = getComputedStyle(document.querySelector(".monaco-workbench") || document.body);
+    const fg = colorLuminance(style.getPropertyValue("--vscode-editor-foreground").trim());
+    const bg = colorLuminance(style.getPropertyValue("--vscode-editor-background").trim());
+
+    if(fg === null || bg === null){
+        return null;
+    };
+
+    // the bright parts of an image are the problem for light text, and the dark parts for dark text
+    const light = fg > bg;
+    const worst = Math.min(Math.max(stats.mean + (light ? stats.deviation : -stats.deviation), 0), 1);
+    const opacity = bk_state.display[src]?.opacity ?? bk_state[ui].opacity;
+
+    const contrast = (brightness, o) => {
+        const l = (1 - o) * bg + o * Math.min(worst * Math.pow(brightness, 2.2), 1);
+        return (Math.max(l, fg) + 0.05) / (Math.min(l, fg) + 0.05);
+    };
+
+    // nothing to do, or the theme itself is below the minimum
+    if(contrast(1, opacity) >= bk_state.guard || contrast(1, 0) < bk_state.guard){
+        return null;
+    };
+
+    let brightness = 100;
+    while(contrast(brightness / 100, opacity) < bk_state.guard && (light ? brightness > 50 : brightness < 150)){
+        brightness += light ? -5 : 5;
+    };
+
+    let capped = Math.round(opacity * 100);
+    while(contrast(brightness / 100, capped / 100) < bk_state.guard && capped > 0){
+        capped--;
+    };
+
+    const adjusted = {brightness: brightness / 100, opacity: capped / 100, contrast: Math.round(contrast(brightness / 100, capped / 100) * 100) / 100};
+    const key = JSON.stringify([ui, src, adjusted]);
+
+    if(!bk_adjusted.has(key)){
+        bk_adjusted.add(key);
+        report({type: "readability", ui, src, ...adjusted});
+    };
+
+    return adjusted;
+};
 `
-+ // background image - window
++ // report
 `
-const bk_window_image = document.createElement("style");
-bk_window_image.id = "${identifier}-window-images";
-bk_window_image.setAttribute("type", "text/css");
+let bk_socket = null;
+const bk_queue = [];
 
-const setWindowBackground = () => {
-    while(bk_window_image.firstChild){
-        bk_window_image.removeChild(bk_window_image.firstChild);
+const flush = () => {
+    const target = bk_state.report;
+
+    if(!target || bk_queue.length === 0){
+        return;
+    };
+
+    if(!bk_socket || bk_socket.target !== target || bk_socket.readyState > 1){
+        const socket = new WebSocket(target);
+        socket.target = target;
+        socket.onopen = () => bk_queue.splice(0).forEach((queued) => socket.send(queued));
+        bk_socket = socket;
+    }else if(bk_socket.readyState === 1){
+        bk_queue.splice(0).forEach((queued) => bk_socket.send(queued));
+    };
+};
+
+// reports are queued until the extension is available
+const report = (message) => {
+    bk_queue.push(JSON.stringify(message));
+    bk_queue.splice(0, bk_queue.length - 100);
+    flush();
+};
+`
++ // random
+`
+const shuffle = (arr) => {
+    for(let i = arr.length - 1; i > 0; i--){
+        const j = Math.floor(Math.random() * i);
+        [arr[i], arr[j]] = [arr[j], arr[i]];
+    };
+};
+
+const permutation = (len, random = Math.random) => {
+    const arr = [...Array(len).keys()];
+    for(let i = arr.length - 1; i > 0; i--){
+        const j = Math.floor(random() * (i + 1));
+        [arr[i], arr[j]] = [arr[j], arr[i]];
+    };
+    return arr;
+};
+`
++ // order
+`
+const bk_cursor = {};
+
+// local storage is shared by all windows, each workspace keeps its own cursor
+const bk_cursorKey = (ui) => bk_workspace ? \`${identifier}-\${bk_workspace}-\${ui}-cursor\` : \`${identifier}-\${ui}-cursor\`;
+
+const hash = (str) => {
+    let h = 5381;
+    for(let i = 0; i < str.length; i++){
+        h = ((h << 5) + h + str.charCodeAt(i)) | 0;
     };
+    return h;
+};
+
+const getCursor = (ui) => {
+    const key = \`\${bk_state[ui].order}:\${hash(JSON.stringify(bk_state[ui].backgrounds))}\`;
 
-    if(windowBackgrounds.length > 0){
-        shuffle(iWindowBackgrounds);
+    if(!bk_cursor[ui] || bk_cursor[ui].key !== key){
+        let saved = null;
+        try{
+            saved = JSON.parse(localStorage.getItem(bk_cursorKey(ui)));
+        }catch(e){};
+        bk_cursor[ui] = saved && saved.key === key ? saved : {key, position: 0, bag: [], current: []};
+    };
 
-        bk_window_image.appendChild(document.createTextNode(\`
-            body${bodySel} {
+    return bk_cursor[ui];
+};
+
+const next = (ui, count, advance) => {
+    const len = bk_state[ui].backgrounds.length;
+
+    if(bk_state[ui].order === "random"){
+        shuffle(bk_index[ui]);
+        return [...Array(count).keys()].map((i) => bk_index[ui][i % len]);
+    };
 
-                background-image: url("\${windowBackgrounds[iWindowBackgrounds[0]].replace(/"/g, \`\\\\"\`)}");
+    const cursor = getCursor(ui);
 
-            }
-        \`));
+    // restore position from previous session
+    if(!advance && cursor.current.length === count && cursor.current.every((i) => i < len)){
+        return cursor.current;
     };
+
+    if(bk_state[ui].order === "sequential"){
+        if(advance && cursor.current.length > 0){
+            cursor.position = (cursor.position + (count % len || 1)) % len;
+        };
+        cursor.current = [...Array(count).keys()].map((i) => (cursor.position + i) % len);
+    }else{
+        const previous = cursor.current;
+        cursor.current = [];
+        for(let i = 0; i < count; i++){
+            if(cursor.bag.length === 0){
+                // refill, pushing recently shown backgrounds to the end so they do not repeat immediately
+                const recent = [...previous, ...cursor.current];
+                cursor.bag = permutation(len).sort((a, b) => recent.includes(a) - recent.includes(b));
+            };
+            cursor.current.push(cursor.bag.shift());
+        };
+    };
+
+    saveCursor(ui, cursor);
+
+    return cursor.current;
 };
+
+const saveCursor = (ui, cursor) => localStorage.setItem(bk_cursorKey(ui), JSON.stringify(cursor));
 `
-+ // background image - editor
++ // history
 `
-const bk_editor_image = document.createElement("style");
-bk_editor_image.id = "${identifier}-editor-images";
-bk_editor_image.setAttribute("type", "text/css");
+const move = (ui, count, moves) => {
+    const history = bk_history[ui];
+    let index = bk_shown[ui];
+
+    for(let i = 0; i < Math.abs(moves); i++){
+        if(moves > 0){
+            history.back.push(index);
+            index = history.forward.length > 0 ? history.forward.pop() : next(ui, count, true);
+        }else if(history.back.length > 0){
+            history.forward.push(index);
+            index = history.back.pop();
+        };
+    };
 
-const setEditorBackground = () => {
-    while(bk_editor_image.firstChild){
-        bk_editor_image.removeChild(bk_editor_image.firstChild);
+    history.back.splice(0, history.back.length - 50);
+
+    // keep the position in sync when moving back so the next reload resumes from here
+    if(bk_state[ui].order !== "random"){
+        const cursor = getCursor(ui);
+        cursor.current = index;
+        cursor.position = index[0];
+        saveCursor(ui, cursor);
     };
 
-    if(editorBackgrounds.length > 0){
-        const len = Math.min(editorBackgrounds.length, 10);
+    return index;
+};
+`
++ // sync
+`
+// synchronized windows derive every pick from the clock, so they agree without talking to each other
+const seeded = (seed) => () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// the nth background since the epoch, random orders shuffle each pass through the backgrounds
+const sequence = (ui, n) => {
+    const {backgrounds, order} = bk_state[ui];
+    const len = backgrounds.length;
 
-        shuffle(iEditorBackgrounds);
+    return order === "sequential"
+        ? n % len
+        : permutation(len, seeded(hash(\`\${ui}:\${Math.floor(n / len)}:\${JSON.stringify(backgrounds)}\`)))[n % len];
+};
 
-        let buf = '';
-        for(let i = 0; i < len; i++){
-            buf += \`
-                .part.editor :not(.split-view-container) .split-view-container > .split-view-view:nth-child(\${len}n+\${i+1}) > .editor-group-container::after {
-                    background-image: url("\${editorBackgrounds[iEditorBackgrounds[i]].replace(/"/g, \`\\\\"\`)}");
-                }
-            \`;
+// change time is split between the tiles of a collage, so each tile changes once every change time
+const period = (ui) => bk_state[ui].time * 1000 / (bk_state[ui].collage ? bk_state[ui].collage.tiles : 1);
+
+const slot = (ui) => bk_state[ui].time > 0 ? Math.floor(Date.now() / period(ui)) : 0;
+
+const synced = (ui, count) => {
+    const n = slot(ui);
+
+    // each tile keeps the background from the last time it changed
+    return bk_state[ui].collage
+        ? [...Array(count).keys()].map((tile) => sequence(ui, n - (((n - tile) % count) + count) % count))
+        : [...Array(count).keys()].map((i) => sequence(ui, n * count + i));
+};
+
+// wait for the next change on the shared schedule rather than counting from when this window started
+const syncTimer = (ui, change) => {
+    const wait = period(ui) - Date.now() % period(ui);
+
+    bk_timer[ui] = setTimeout(() => {
+        change();
+        syncTimer(ui, change);
+    }, wait);
+};
+`
++ // collage
+`
+const collage = (ui) => {
+    const {collage: layout, transition: type, duration} = bk_state[ui];
+
+    return !layout ? "" : \`
+        .bk-\${ui}-collage {
+
+            display: grid;
+            grid-template-columns: \${layout.span > 1 ? \`2fr repeat(\${layout.columns - 1}, 1fr)\` : \`repeat(\${layout.columns}, 1fr)\`};
+            grid-template-rows: repeat(\${layout.rows}, 1fr);
+
+        }
+
+        .bk-\${ui}-collage > div {
+
+            background-position: inherit;
+            background-repeat: inherit;
+            background-size: inherit;
+
+            opacity: \${opacity(ui)};
+
+            filter: \${filter(ui)};
+
+            transition: \${type === "none" ? "none" : ["opacity", type === "crossfade" && "background-image"]
+                .filter(Boolean)
+                .map((property) => \`\${property} \${duration}s ease-in-out\`)
+                .join(",")};
+
+        }
+
+        .bk-\${ui}-collage > div:first-child {
+
+            grid-row: span \${layout.span};
+
+        }
+
+        .bk-\${ui}-collage > div[tileTransition="true"] {
+
+            opacity: 0;
+
+        }
+    \`;
+};
+
+const syncCollage = (container, className, collage, prepend) => {
+    if(!container){
+        return;
+    };
+
+    let grid = container.querySelector(\`:scope > div.\${className}\`);
+
+    if(!collage){
+        grid && grid.remove();
+        return;
+    }else if(!grid){
+        grid = document.createElement("div");
+        grid.className = className;
+        prepend ? container.prepend(grid) : container.appendChild(grid);
+    };
+
+    if(grid.children.length !== collage.tiles){
+        grid.replaceChildren(...[...Array(collage.tiles)].map(() => document.createElement("div")));
+    };
+};
+
+// the next background for a single tile, skipping backgrounds that are already shown
+const nextTile = (ui, tile) => {
+    const len = bk_state[ui].backgrounds.length;
+    const hidden = (i) => !bk_shown[ui].includes(i);
+    const cursor = getCursor(ui);
+
+    // each tile moves forward by the tile count, so together the tiles step through every background
+    if(bk_state[ui].order === "sequential"){
+        const start = (bk_shown[ui][tile] ?? cursor.position) + bk_shown[ui].length;
+        return [...Array(len).keys()].map((i) => (start + i) % len).find(hidden) ?? start % len;
+    };
+
+    // refill once only shown backgrounds are left, pushing them to the end
+    if(!cursor.bag.some(hidden)){
+        cursor.bag = permutation(len).sort((a, b) => bk_shown[ui].includes(a) - bk_shown[ui].includes(b));
+    };
+
+    // with fewer backgrounds than tiles keep the current one rather than showing another tile's background twice
+    const i = cursor.bag.findIndex(hidden);
+    return i === -1 ? bk_shown[ui][tile] ?? cursor.bag[0] : cursor.bag.splice(i, 1)[0];
+};
+
+// change a single tile, other tiles keep their background
+const rotateTile = async (ui, tile) => {
+    const {backgrounds, order, transition: type, duration} = bk_state[ui];
+    const token = bk_load[ui];
+    let index;
+
+    if(bk_state.sync){
+        index = sequence(ui, slot(ui));
+    }else if(order === "random"){
+        shuffle(bk_index[ui]);
+        index = bk_index[ui].find((i) => !bk_shown[ui].includes(i)) ?? bk_shown[ui][tile] ?? bk_index[ui][0];
+    }else{
+        index = nextTile(ui, tile);
+    };
+
+    const src = backgrounds[index];
+
+    if(!await preload(src)){
+        broken(ui, src);
+        return;
+    }else if(token !== bk_load[ui]){
+        return;
+    };
+
+    const tiles = document.querySelectorAll(\`.bk-\${ui}-collage > div:nth-child(\${tile + 1})\`);
+    const swap = () => {
+        if(token === bk_load[ui]){
+            bk_shown[ui][tile] = index;
+            setBackground(ui, bk_current[ui].map((current, i) => i === tile ? src : current));
+
+            // remember every tile so the next reload restores the whole collage
+            if(order !== "random"){
+                const cursor = getCursor(ui);
+                cursor.current = [...bk_shown[ui]];
+                saveCursor(ui, cursor);
+            };
         };
-        bk_editor_image.appendChild(document.createTextNode(buf));
+        tiles.forEach((element) => element.setAttribute("tileTransition", false));
+    };
+
+    // crossfade is handled by the background-image transition itself
+    if(type === "none" || type === "crossfade" || duration === 0){
+        swap();
+    }else{
+        tiles.forEach((element) => element.setAttribute("tileTransition", true));
+        setTimeout(swap, duration * 1000);
     };
 };
 `
-+ // background image - sidebar
++ // video
 `
-const bk_sidebar_image = document.createElement("style");
-bk_sidebar_image.id = "${identifier}-sidebar-images";
-bk_sidebar_image.setAttribute("type", "text/css");
+const isVideo = (src) => !!src && /\\.(${videoExtensions().join('|')})$/i.test(src.split(/[?#]/)[0]);
+
+// per video overrides, videos only fit to the layer so css sizes are left to images
+const videoDisplay = (src) => {
+    const options = bk_state.display[src] || {};
+    const fit = {auto: "none", contain: "contain", cover: "cover"}[options.size];
+
+    return [
+        fit && \`object-fit: \${fit};\`,
+        options.position && \`object-position: \${options.position};\`,
+        options.opacity !== undefined && \`--bk-opacity: \${options.opacity};\`
+    ].filter(Boolean).join("");
+};
 
-const setSidebarBackground = () => {
-    while(bk_sidebar_image.firstChild){
-        bk_sidebar_image.removeChild(bk_sidebar_image.firstChild);
+const syncVideo = (container, className, src, prepend) => {
+    if(!container){
+        return;
     };
 
-    if(sidebarBackgrounds.length > 0){
-        shuffle(iSidebarBackgrounds);
+    let video = container.querySelector(\`:scope > video.\${className}\`);
+
+    if(!src){
+        video && video.remove();
+    }else if(!video){
+        video = document.createElement("video");
+        video.className = className;
+        video.muted = true;
+        video.loop = true;
+        video.autoplay = true;
+        video.playsInline = true;
+        video.src = src;
+        prepend ? container.prepend(video) : container.appendChild(video);
+        video.play().catch(() => {});
+    }else if(video.getAttribute("src") !== src){
+        video.src = src;
+        video.play().catch(() => {});
+    };
 
-        bk_sidebar_image.appendChild(document.createTextNode(\`
-            .split-view-view > .part.sidebar::after {
+    src && (video.style.cssText = videoDisplay(src));
+};
+
+// the overlay stays while backgrounds change, so it is not part of any transition, filter, or collage tile
+const syncOverlay = (container, className, show, prepend) => {
+    if(!container){
+        return;
+    };
 
-                background-image: url("\${sidebarBackgrounds[iSidebarBackgrounds[0]].replace(/"/g, \`\\\\"\`)}");
+    let overlay = container.querySelector(\`:scope > div.\${className}\`);
 
-            }
-            .split-view-view > .part.auxiliarybar::after {
+    if(!show){
+        overlay && overlay.remove();
+    }else if(!overlay){
+        overlay = document.createElement("div");
+        overlay.className = \`bk-overlay \${className}\`;
+        // after the prepended video and collage, but before any content
+        prepend ? container.insertBefore(overlay, container.querySelector(":scope > :not(.bk-window-video, .bk-window-collage)")) : container.appendChild(overlay);
+    };
+};
+
+const syncVideos = () => {
+    for(const ui of bk_uis){
+        for(const [container, i] of bk_containers[ui]()){
+            const src = ui === "editor" && bk_rule.src && container.classList.contains("active")
+                ? bk_rule.src
+                : bk_current[ui].length > 0 ? bk_current[ui][i % bk_current[ui].length] : null;
+            syncCollage(container, \`bk-\${ui}-collage\`, bk_state[ui].collage, ui === "window" && ${under || !after});
+            syncVideo(container, \`bk-\${ui}-video\`, src && isVideo(src) && !bk_state[ui].collage ? src : null, ui === "window" && ${under || !after});
+            syncOverlay(container, \`bk-\${ui}-overlay\`, !!src && !!bk_state[ui].overlay, ui === "window" && ${under || !after});
+        };
+    };
+};
 
-                background-image: url("\${(sidebarBackgrounds[iSidebarBackgrounds[1]] ?? sidebarBackgrounds[iSidebarBackgrounds[0]]).replace(/"/g, \`\\\\"\`)}");
+let bk_pending = false;
 
-            }
-        \`));
+const scheduleVideos = () => {
+    if(!bk_pending && (bk_uis.some((ui) => bk_current[ui].some(isVideo) || bk_state[ui].collage || bk_state[ui].overlay) || (bk_rule.src && isVideo(bk_rule.src)))){
+        bk_pending = true;
+        requestAnimationFrame(() => {
+            bk_pending = false;
+            syncVideos();
+        });
     };
 };
+
+new MutationObserver(scheduleVideos).observe(document.body, {childList: true, subtree: true});
+
+// the active editor group can change without any elements being added
+document.addEventListener("focusin", scheduleVideos);
 `
-+ // background image - panel
++ // editor rule
 `
-const bk_panel_image = document.createElement("style");
-bk_panel_image.id = "${identifier}-panel-images";
-bk_panel_image.setAttribute("type", "text/css");
+const bk_rule = {style: document.createElement("style"), key: null, src: null};
+
+bk_rule.style.id = \`${identifier}-editor-rule\`;
+bk_rule.style.setAttribute("type", "text/css");
 
-const setPanelBackground = () => {
-    while(bk_panel_image.firstChild){
-        bk_panel_image.removeChild(bk_panel_image.firstChild);
+const setRule = () => {
+    const rule = bk_state.editor.rule;
+    const key = JSON.stringify(rule);
+
+    if(key !== bk_rule.key){
+        bk_rule.key = key;
+        bk_rule.src = rule && rule.length > 0 ? rule[Math.floor(Math.random() * rule.length)] : null;
+        syncVideos();
     };
 
-    if(panelBackgrounds.length > 0){
-        shuffle(iPanelBackgrounds);
+    bk_rule.style.textContent = !bk_rule.src ? "" : \`
+        .part.editor :not(.split-view-container) .split-view-container > .split-view-view > .editor-group-container.active::after {
+
+            background-image: \${image("editor", bk_rule.src)};
+            \${display("editor", bk_rule.src)}
+
+        }
+    \`;
+
+    measure([bk_rule.src], setRule);
+};
+`
++ // empty editor
+`
+const bk_empty = {style: document.createElement("style"), src: null, pending: false};
 
-        bk_panel_image.appendChild(document.createTextNode(\`
-            .split-view-view > .part.panel::after {
+bk_empty.style.id = \`${identifier}-empty\`;
+bk_empty.style.setAttribute("type", "text/css");
 
-                background-image: url("\${panelBackgrounds[iPanelBackgrounds[0]].replace(/"/g, \`\\\\"\`)}");
+const setEmpty = () => {
+    const {backgrounds, opacity} = bk_state.empty;
+    const images = backgrounds.filter((src) => !isVideo(src));
 
-            }
-        \`));
+    if(!images.includes(bk_empty.src)){
+        bk_empty.src = images.length > 0 ? images[Math.floor(Math.random() * images.length)] : null;
     };
+
+    // fade in when the last editor closes, but hide immediately when one opens
+    bk_empty.style.textContent = !bk_empty.src ? "" : \`
+        ${empty} {
+
+            background-image: \${source(bk_empty.src)};
+            background-position: center center;
+            background-repeat: no-repeat;
+            background-size: cover;
+
+            opacity: 0;
+            transition: none;
+
+        }
+
+        body[emptyEditor="true"] ${empty} {
+
+            opacity: \${opacity};
+            transition: opacity 0.5s ease-in-out;
+
+        }
+    \`;
+
+    checkEmpty();
 };
+
+// the welcome page counts as empty as long as it is the only editor in its group
+const isEmptyEditor = () => [...document.querySelectorAll(".part.editor .editor-group-container")].every((group) =>
+    group.classList.contains("empty") ||
+    (!!group.querySelector(".gettingStartedContainer") && group.querySelectorAll(".tabs-container > .tab").length <= 1));
+
+const checkEmpty = () => document.body.setAttribute("emptyEditor", !!bk_empty.src && isEmptyEditor());
+
+new MutationObserver(() => {
+    if(bk_empty.src && !bk_empty.pending){
+        bk_empty.pending = true;
+        requestAnimationFrame(() => {
+            bk_empty.pending = false;
+            checkEmpty();
+        });
+    };
+}).observe(document.body, {childList: true, subtree: true});
 `
-+ // random
++ // rotation
 `
-const shuffle = (arr) => {
-    for(let i = arr.length - 1; i > 0; i--){
-        const j = Math.floor(Math.random() * i);
-        [arr[i], arr[j]] = [arr[j], arr[i]];
+const transition = (ui, moves, instant) => load(ui, moves).then((srcs) => {
+    const {transition: type, duration} = bk_state[ui];
+    const attribute = \`\${ui}Transition\`;
+    const token = bk_load[ui];
+
+    if(!srcs){
+        return;
+    };
+
+    // crossfade is handled by the background-image transition itself
+    if(instant || type === "none" || type === "crossfade" || duration === 0){
+        setBackground(ui, srcs);
+        return;
+    };
+
+    document.body.setAttribute(attribute, true);
+    setTimeout(() => {
+        token === bk_load[ui] && setBackground(ui, srcs);
+        if(type in bk_effects){
+            // jump to the entering position, then let it transition back in on the next frame
+            document.body.setAttribute(attribute, "enter");
+            requestAnimationFrame(() => requestAnimationFrame(() => document.body.setAttribute(attribute, false)));
+        }else{
+            document.body.setAttribute(attribute, false);
+        };
+    }, duration * 1000);
+});
+
+const setTimer = (ui) => {
+    const {time, backgrounds, collage} = bk_state[ui];
+
+    clearInterval(bk_timer[ui]);
+    clearTimeout(bk_timer[ui]);
+
+    if(time > 0 && backgrounds.length > 1 && bk_state.sync){
+        syncTimer(ui, () => collage ? rotateTile(ui, slot(ui) % collage.tiles) : transition(ui, 0));
+    }else if(time > 0 && backgrounds.length > 1 && collage){
+        // stagger the tiles so that each one changes once every change time
+        let tile = 0;
+        bk_timer[ui] = setInterval(() => rotateTile(ui, tile++ % collage.tiles), time * 1000 / collage.tiles);
+    }else if(time > 0 && backgrounds.length > 1){
+        bk_timer[ui] = setInterval(() => transition(ui, 1), time * 1000);
     };
 };
 `
-+ // install
++ // overrides
 `
-document.getElementsByTagName("head")[0].appendChild(bk_global);
-document.getElementsByTagName("head")[0].appendChild(bk_window_image);
-document.getElementsByTagName("head")[0].appendChild(bk_editor_image);
-document.getElementsByTagName("head")[0].appendChild(bk_sidebar_image);
-document.getElementsByTagName("head")[0].appendChild(bk_panel_image);
+const getTheme = () => {
+    const classes = [...document.body.classList, ...(document.querySelector(".monaco-workbench")?.classList ?? [])];
 
-for(const arr of [iWindowBackgrounds, iEditorBackgrounds, iSidebarBackgrounds, iPanelBackgrounds]){
-    for(let i = arr.length - 1; i > 0; i--){
-        const j = Math.floor(Math.random() * (i + 1));
-        [arr[i], arr[j]] = [arr[j], arr[i]];
+    return classes.includes("hc-light") || classes.includes("vscode-high-contrast-light") ? "highContrastLight"
+        : classes.includes("hc-black") || classes.includes("vscode-high-contrast") ? "highContrast"
+        : classes.includes("vs") || classes.includes("vscode-light") ? "light"
+        : "dark";
+};
+
+const getSchedules = (state) => {
+    const now = new Date();
+    const minute = now.getHours() * 60 + now.getMinutes();
+    const schedule = {};
+
+    for(const ui of bk_uis){
+        // schedules that end before they start continue past midnight
+        schedule[ui] = state[ui].schedules.findIndex(({from, to}) => from < to
+            ? from <= minute && minute < to
+            : from > to ? minute >= from || minute < to : true);
     };
+
+    return schedule;
 };
 
-setWindowBackground();
-setEditorBackground();
-setSidebarBackground();
-setPanelBackground();
+let bk_theme = null;
+let bk_schedule = {};
+
+const override = (state) => {
+    const out = {...state};
+    for(const ui of bk_uis){
+        const schedule = state[ui].schedules[bk_schedule[ui]];
+        const context = state.context && state.context.uis.includes(ui) ? state.context : null;
+
+        // context rules take priority, the tint is drawn above the regular overlay
+        out[ui] = {
+            ...state[ui],
+            ...state[ui].themes[bk_theme],
+            ...(schedule && {backgrounds: schedule.backgrounds}),
+            ...(context && context.backgrounds && {backgrounds: context.backgrounds}),
+            ...(context && context.overlay && {overlay: [context.overlay, state[ui].overlay].filter(Boolean).join(",")})
+        };
 
-if(windowTime > 0 && iWindowBackgrounds.length > 1){
-    setInterval(() => {
-        document.body.setAttribute("windowTransition", true);
-        setTimeout(() => {
-            setWindowBackground();
-            document.body.setAttribute("windowTransition", false);
-        }, 1 * 1000);
-    }, windowTime * 1000);
-};
-if(editorTime > 0 && iEditorBackgrounds.length > 1){
-    setInterval(() => {
-        document.body.setAttribute("editorTransition", true);
-        setTimeout(() => {
-            setEditorBackground();
-            document.body.setAttribute("editorTransition", false);
-        }, 1 * 1000);
-    }, editorTime * 1000);
-};
-if(sidebarTime > 0 && iSidebarBackgrounds.length > 1){
-    setInterval(() => {
-        document.body.setAttribute("sidebarTransition", true);
-        setTimeout(() => {
-            setSidebarBackground();
-            document.body.setAttribute("sidebarTransition", false);
-        }, 1 * 1000);
-    }, sidebarTime * 1000);
-};
-if(panelTime > 0 && iPanelBackgrounds.length > 1){
-    setInterval(() => {
-        document.body.setAttribute("panelTransition", true);
-        setTimeout(() => {
-            setPanelBackground();
-            document.body.setAttribute("panelTransition", false);
-        }, 1 * 1000);
-    }, panelTime * 1000);
+        // collage tiles only draw images
+        out[ui].collage && (out[ui].backgrounds = out[ui].backgrounds.filter((src) => !isVideo(src)));
+    };
+    return out;
 };
+`
++ // state
+`
+let bk_steps = null;
+let bk_raw = bk_state;
+
+const setState = (state, initial) => {
+    const previous = bk_state;
+    bk_raw = state;
+    bk_theme = getTheme();
+    bk_schedule = getSchedules(state);
+    bk_state = state = override(state);
+
+    checkHidden();
+
+    // steps from a previous session are already reflected in the saved position
+    const steps = !initial && bk_steps && bk_steps.session === state.session ? bk_steps : null;
+
+    for(const ui of bk_uis){
+        const changed = initial || previous.sync !== state.sync ||
+            JSON.stringify(previous[ui].backgrounds) !== JSON.stringify(state[ui].backgrounds) ||
+            JSON.stringify(previous[ui].collage) !== JSON.stringify(state[ui].collage);
+
+        setStyle(ui);
+
+        // the readability guard also depends on the theme colors
+        if(!changed && (previous[ui].overlay !== state[ui].overlay || JSON.stringify(previous.display) !== JSON.stringify(state.display) || previous.guard || state.guard)){
+            setBackground(ui, bk_current[ui]);
+        };
+
+        if(changed || previous[ui].order !== state[ui].order){
+            bk_index[ui] = permutation(state[ui].backgrounds.length);
+            bk_history[ui] = {back: [], forward: []};
+
+            transition(ui, 0, initial);
+        }else if(steps && state[ui].steps !== steps[ui] && state[ui].backgrounds.length > 1){
+            transition(ui, state[ui].steps - steps[ui]);
+            setTimer(ui);
+        };
+
+        if(changed || previous[ui].time !== state[ui].time){
+            setTimer(ui);
+        };
+    };
+
+    setRule();
+    setEmpty();
+    scheduleParallax();
+    flush();
+
+    if(!initial){
+        bk_steps = {session: state.session};
+        for(const ui of bk_uis){
+            bk_steps[ui] = state[ui].steps;
+        };
+    };
+};
+
+let bk_text = null;
+
+const checkOverrides = () => {
+    if(getTheme() !== bk_theme || JSON.stringify(getSchedules(bk_raw)) !== JSON.stringify(bk_schedule)){
+        setState(bk_raw, false);
+    };
+};
+
+const poll = () => fetch(bk_file, {cache: "no-store"})
+    .then((res) => res.ok ? res.text() : null)
+    .then((text) => {
+        if(text && text !== bk_text){
+            bk_text = text;
+            setState(JSON.parse(text), false);
+        };
+    })
+    .catch(() => {});
+`
++ // install
+`
+document.getElementsByTagName("head")[0].appendChild(bk_global);
+
+for(const ui of bk_uis){
+    document.getElementsByTagName("head")[0].appendChild(bk_style[ui]);
+    document.getElementsByTagName("head")[0].appendChild(bk_image[ui]);
+};
+
+document.getElementsByTagName("head")[0].appendChild(bk_rule.style);
+document.getElementsByTagName("head")[0].appendChild(bk_empty.style);
+
+setState(bk_state, true);
+
+setInterval(() => {
+    checkOverrides();
+    checkHidden();
+    poll();
+}, 1 * 1000);
 ` +
             `})();`;
 }
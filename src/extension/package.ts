@@ -23,20 +23,54 @@ export type ConfigurationKey =
     "editorBackgrounds" |
     "sidebarBackgrounds" |
     "panelBackgrounds" |
+    "terminalBackgrounds" |
+    "statusbarBackgrounds" |
+    "activitybarBackgrounds" |
+    "titlebarBackgrounds" |
+    "emptyEditorBackgrounds" |
+    "emptyEditorOpacity" |
+    "editorBackgroundRules" |
+    "contextBackgroundRules" |
+    "themeBackgrounds" |
+    "backgroundSchedules" |
+    "backgroundPlaceholder" |
+    "backgroundDisplay" |
     "backgroundAlignment" |
     "backgroundAlignmentValue" |
     "backgroundBlur" |
+    "backgroundGrayscale" |
+    "backgroundSaturate" |
+    "backgroundHueRotate" |
+    "backgroundBrightness" |
+    "backgroundContrast" |
+    "backgroundSepia" |
+    "backgroundInvert" |
     "backgroundOpacity" |
+    "backgroundOverlay" |
+    "backgroundOverlayColor" |
+    "backgroundOverlayOpacity" |
     "backgroundRepeat" |
     "backgroundSize" |
     "backgroundSizeValue" |
+    "backgroundCollage" |
     "backgroundChangeTime" |
+    "backgroundOrder" |
+    "backgroundTransition" |
+    "backgroundTransitionDuration" |
+    "backgroundAnimation" |
+    "backgroundAnimationSpeed" |
+    "backgroundAnimationAmplitude" |
     "autoInstall" |
     "renderContentAboveBackground" |
     "renderTextAboveBackground" |
     "useInvertedOpacity" |
+    "readabilityGuard" |
+    "readabilityContrast" |
+    "syncWindows" |
+    "autoHide" |
     "settingScope" |
     "smoothImageRendering" |
+    "cacheSize" |
     "CSS" |
     "API";
 
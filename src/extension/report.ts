@@ -0,0 +1,153 @@
+/*
+ * Copyright (C) 2026 Katsute <https://github.com/Katsute>
+ *
+ * This program is free software; you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation; either version 2 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License along
+ * with this program; if not, write to the Free Software Foundation, Inc.,
+ * 51 Franklin Street, Fifth Floor, Boston, MA 02110-1301 USA.
+ */
+import { Socket } from "net";
+import { randomBytes, createHash } from "crypto";
+import { IncomingMessage, Server, createServer } from "http";
+
+import { logError } from "../lib/log";
+
+// the workbench content security policy only allows connections to 'self', https, and ws
+
+export type Report = {
+    type: string,
+    [key: string]: any
+};
+
+const maxPayload: number = 64 * 1024;
+
+const listeners: {[type: string]: ((report: Report) => void)[]} = {};
+
+export const onReport: (type: string, listener: (report: Report) => void) => void = (type: string, listener: (report: Report) => void) => {
+    (listeners[type] ??= []).push(listener);
+}
+
+const dispatch: (message: string) => void = (message: string) => {
+    try{
+        const report: Report = JSON.parse(message);
+        for(const listener of listeners[report?.type] ?? [])
+            listener(report);
+    }catch(error: any){
+        logError("report", "Failed to read report", error);
+    }
+}
+
+// websocket
+
+const accept: (key: string) => string = (key: string) =>
+    createHash("sha1")
+        .update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+        .digest("base64");
+
+const read: (socket: Socket) => void = (socket: Socket) => {
+    let buffer: Buffer = Buffer.alloc(0);
+
+    socket.on("data", (chunk: Buffer) => {
+        buffer = Buffer.concat([buffer, chunk]);
+
+        while(buffer.length >= 2){
+            const opcode: number = buffer[0] & 0x0f;
+            const masked: boolean = (buffer[1] & 0x80) !== 0;
+            let length: number = buffer[1] & 0x7f;
+            let offset: number = 2;
+
+            if(length === 126){
+                if(buffer.length < 4) return;
+                length = buffer.readUInt16BE(2);
+                offset = 4;
+            }else if(length === 127){
+                if(buffer.length < 10) return;
+                length = Number(buffer.readBigUInt64BE(2));
+                offset = 10;
+            }
+
+            // browsers always mask frames and reports are small
+            if(!masked || length > maxPayload){
+                socket.destroy();
+                return;
+            }
+
+            if(buffer.length < offset + 4 + length) return;
+
+            const mask: Buffer = buffer.subarray(offset, offset + 4);
+            const payload: Buffer = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+            for(let i = 0; i < payload.length; i++)
+                payload[i] ^= mask[i % 4];
+
+            buffer = buffer.subarray(offset + 4 + length);
+
+            if(opcode === 0x1) // text
+                dispatch(payload.toString("utf-8"));
+            else if(opcode === 0x8){ // close
+                socket.end(Buffer.from([0x88, 0x00]));
+                return;
+            }
+        }
+    });
+}
+
+// server
+
+let server: Server | undefined;
+let url: string | undefined;
+
+export const getReportUrl: () => string | undefined = () => url;
+
+export const startReport: () => Promise<{dispose: () => void}> = () => new Promise((resolve) => {
+    const token: string = randomBytes(16).toString("hex");
+
+    server = createServer((_, res) => {
+        res.writeHead(426);
+        res.end();
+    });
+
+    server.on("upgrade", (req: IncomingMessage, socket: Socket) => {
+        const key: string | undefined = req.headers["sec-websocket-key"] as string | undefined;
+
+        // only accept the workbench of this window
+        if(req.url !== `/${token}` || req.headers.origin !== "vscode-file://vscode-app" || !key){
+            socket.destroy();
+            return;
+        }
+
+        socket.on("error", () => socket.destroy());
+        socket.write(
+            "HTTP/1.1 101 Switching Protocols\r\n" +
+            "Upgrade: websocket\r\n" +
+            "Connection: Upgrade\r\n" +
+            `Sec-WebSocket-Accept: ${accept(key)}\r\n\r\n`
+        );
+        read(socket);
+    });
+
+    const dispose: () => void = () => {
+        server?.close();
+        server = url = undefined;
+    };
+
+    server.on("error", (error: Error) => {
+        logError("report", "Failed to start report server", error);
+        dispose();
+        resolve({dispose});
+    });
+
+    server.listen(0, "127.0.0.1", () => {
+        const address: any = server!.address();
+        url = `ws://127.0.0.1:${address.port}/${token}`;
+        resolve({dispose});
+    });
+});
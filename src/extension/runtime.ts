@@ -0,0 +1,434 @@
+/*
+ * Copyright (C) 2026 Katsute <https://github.com/Katsute>
+ *
+ * This program is free software; you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation; either version 2 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License along
+ * with this program; if not, write to the Free Software Foundation, Inc.,
+ * 51 Franklin Street, Fifth Floor, Boston, MA 02110-1301 USA.
+ */
+
+import { basename, join } from "path";
+import { createHash } from "crypto";
+import { mkdirSync, renameSync, writeFileSync } from "fs";
+import { TextDocument, TextEditor, languages, window, workspace } from "vscode";
+
+import { ConfigurationKey } from "./package";
+import { Theme, UI, filters, get, getCSS, getTheme, themes, uis } from "./config";
+
+import { round } from "../lib/math";
+import { escapeRegExp } from "../lib/string";
+import { sanitizeColor, sanitizeUnits } from "../lib/css";
+import { resolve } from "../lib/glob";
+import { logError } from "../lib/log";
+import { getReportUrl } from "./report";
+
+// state
+
+export type RuntimeBackground = {
+    backgrounds: string[],
+    alignment: string,
+    repeat: string,
+    size: string,
+    fit: string,
+    collage: {columns: number, rows: number, tiles: number, span: number} | null,
+    opacity: number,
+    overlay: string,
+    filters: {[filter: string]: string},
+    time: number,
+    order: "random" | "bag" | "sequential",
+    transition: "none" | "fade" | "crossfade" | "slide" | "zoom",
+    duration: number,
+    animation: "none" | "kenburns" | "parallax",
+    speed: number,
+    amplitude: number,
+    steps: number,
+    rule: string[] | null,
+    themes: {[theme in Theme]?: {backgrounds?: string[], opacity?: number}},
+    schedules: {from: number, to: number, backgrounds: string[]}[]
+};
+
+export type RuntimeState = {[ui in UI]: RuntimeBackground} & {
+    session: string,
+    report: string | null,
+    placeholder: string | null,
+    display: {[src: string]: {size?: string, position?: string, opacity?: number}},
+    guard: number | null,
+    safe: boolean,
+    hidden: boolean,
+    autoHide: boolean,
+    context: {uis: UI[], backgrounds: string[] | null, overlay: string | null} | null,
+    sync: boolean,
+    empty: {backgrounds: string[], opacity: number}
+};
+
+// settings that the injected script applies without a reinstall
+
+export const runtimeKeys: ConfigurationKey[] = [
+    "windowBackgrounds",
+    "editorBackgrounds",
+    "sidebarBackgrounds",
+    "panelBackgrounds",
+    "terminalBackgrounds",
+    "statusbarBackgrounds",
+    "activitybarBackgrounds",
+    "titlebarBackgrounds",
+    "emptyEditorBackgrounds",
+    "emptyEditorOpacity",
+    "editorBackgroundRules",
+    "contextBackgroundRules",
+    "themeBackgrounds",
+    "backgroundSchedules",
+    "backgroundPlaceholder",
+    "backgroundDisplay",
+    "backgroundAlignment",
+    "backgroundAlignmentValue",
+    "backgroundBlur",
+    "backgroundGrayscale",
+    "backgroundSaturate",
+    "backgroundHueRotate",
+    "backgroundBrightness",
+    "backgroundContrast",
+    "backgroundSepia",
+    "backgroundInvert",
+    "backgroundOpacity",
+    "backgroundOverlay",
+    "backgroundOverlayColor",
+    "backgroundOverlayOpacity",
+    "backgroundRepeat",
+    "backgroundSize",
+    "backgroundSizeValue",
+    "backgroundCollage",
+    "backgroundChangeTime",
+    "backgroundOrder",
+    "backgroundTransition",
+    "backgroundTransitionDuration",
+    "backgroundAnimation",
+    "backgroundAnimationSpeed",
+    "backgroundAnimationAmplitude",
+    "useInvertedOpacity",
+    "readabilityGuard",
+    "readabilityContrast",
+    "syncWindows",
+    "autoHide"
+];
+
+const objectFit: (ui: UI) => string = (ui: UI) => {
+    const size: string = getCSS("backgroundSize", ui);
+    return size === "auto" ? "none" : size === "contain" || size === "cover" ? size : "fill";
+}
+
+// tiles fill the grid in order, the first tile spans multiple rows
+const getCollage: (layout: string) => RuntimeBackground["collage"] = (layout: string) => {
+    const match: RegExpMatchArray | null = (layout ?? "").match(/^(\d)x(\d)$/);
+
+    if(match)
+        return {columns: +match[1], rows: +match[2], tiles: +match[1] * +match[2], span: 1};
+    else if(layout === "Masonry")
+        return {columns: 3, rows: 2, tiles: 5, span: 2};
+    else
+        return null;
+}
+
+const invert: (opacity: number) => number = (opacity: number) =>
+    round(get("useInvertedOpacity") ? 1 - opacity : opacity, 2);
+
+const getThemes: (ui: UI, select: (backgrounds: string[]) => string[]) => RuntimeBackground["themes"] = (ui: UI, select: (backgrounds: string[]) => string[]) => {
+    const sets: RuntimeBackground["themes"] = {};
+
+    for(const theme of themes){
+        const {backgrounds, opacity} = getTheme(theme, ui);
+        if(backgrounds || opacity !== undefined)
+            sets[theme] = {
+                ...(backgrounds && {backgrounds: select(backgrounds)}),
+                ...(opacity !== undefined && {opacity: invert(opacity)})
+            };
+    }
+
+    return sets;
+}
+
+// minutes since midnight
+const minutes: (time: any) => number = (time: any) => {
+    const match: RegExpMatchArray | null = typeof time === "string" ? time.match(/^([01]?\d|2[0-3]):([0-5]\d)$/) : null;
+    return match ? +match[1] * 60 + +match[2] : NaN;
+}
+
+const getSchedules: (ui: UI, select: (backgrounds: string[]) => string[]) => RuntimeBackground["schedules"] = (ui: UI, select: (backgrounds: string[]) => string[]) => {
+    const schedules: any = get("backgroundSchedules")?.[ui];
+
+    return (Array.isArray(schedules) ? schedules : [])
+        .filter((schedule: any) => !isNaN(minutes(schedule?.from)) && !isNaN(minutes(schedule?.to)) && schedule.backgrounds)
+        .map((schedule: any) => ({
+            from: minutes(schedule.from),
+            to: minutes(schedule.to),
+            backgrounds: select(schedule.backgrounds)
+        }));
+}
+
+// display overrides for every image that an entry matches
+const getDisplay: () => RuntimeState["display"] = () => {
+    const display: RuntimeState["display"] = {};
+
+    for(const [entry, options] of Object.entries((get("backgroundDisplay") ?? {}) as {[entry: string]: any})){
+        const {size, focus, opacity} = options ?? {};
+        const override: RuntimeState["display"][string] = {
+            ...(typeof size === "string" && size.trim() && {size: ["Auto", "Contain", "Cover"].includes(size) ? size.toLowerCase() : sanitizeUnits(size)}),
+            ...(Array.isArray(focus) && focus.length === 2 && focus.every((n: any) => typeof n === "number") && {
+                position: focus.map((n: number) => `${round(Math.min(Math.max(n, 0), 100), 2)}%`).join(' ')
+            }),
+            ...(typeof opacity === "number" && {opacity: invert(Math.min(Math.max(opacity, 0), 1))})
+        };
+
+        if(Object.keys(override).length > 0)
+            for(const src of resolve(entry))
+                display[src] = override;
+    }
+
+    return display;
+}
+
+const getOrder: (ui: UI) => {order: RuntimeBackground["order"], sort?: "path" | "modified", pin?: string} = (ui: UI) => {
+    switch(get("backgroundOrder", {ui})){
+        case "Per Workspace": return workspace.name ? {order: "sequential", sort: "path", pin: `${workspace.name}:${ui}`} : {order: "random"}; // windows without a folder have nothing to pin to
+        case "Shuffle Bag": return {order: "bag"};
+        case "Sequential": return {order: "sequential", sort: "path"};
+        case "Sequential (Modified Time)": return {order: "sequential", sort: "modified"};
+        default: return {order: "random"};
+    }
+}
+
+// the same workspace always shows the same background as long as the backgrounds do not change
+const pinned: (backgrounds: string[], pin?: string) => string[] = (backgrounds: string[], pin?: string) =>
+    !pin || backgrounds.length < 2
+        ? backgrounds
+        : [backgrounds[createHash("sha1").update(pin).digest().readUInt32BE(0) % backgrounds.length]];
+
+export const getState: () => RuntimeState = () => {
+    const placeholder: string = get("backgroundPlaceholder") ?? "";
+    const state: Partial<RuntimeState> = {
+        session,
+        report: getReportUrl() ?? null,
+        placeholder: placeholder.trim() ? resolve(placeholder.trim())[0] ?? null : null,
+        display: getDisplay(),
+        guard: get("readabilityGuard") ? Math.min(Math.max(+get("readabilityContrast") || 4.5, 1), 21) : null,
+        safe,
+        hidden,
+        autoHide: !!get("autoHide"),
+        context: getContext(),
+        sync: !!get("syncWindows"),
+        empty: {
+            backgrounds: resolve(get("emptyEditorBackgrounds") ?? []),
+            opacity: invert(Math.min(Math.max(+get("emptyEditorOpacity") || 0, 0), 1))
+        }
+    };
+
+    for(const ui of uis){
+        const opacity: number = +getCSS("backgroundOpacity", ui);
+        const time: number = get("backgroundChangeTime", {ui});
+        const {order, sort, pin} = getOrder(ui);
+        const select: (backgrounds: string[]) => string[] = (backgrounds: string[]) => pinned(resolve(backgrounds, sort), pin);
+
+        state[ui] = {
+            backgrounds: select(get(`${ui}Backgrounds`)),
+            alignment: getCSS("backgroundAlignment", ui),
+            repeat: getCSS("backgroundRepeat", ui),
+            size: getCSS("backgroundSize", ui),
+            fit: objectFit(ui),
+            collage: ui === "editor" ? null : getCollage(get("backgroundCollage", {ui})),
+            opacity: invert(opacity),
+            overlay: getCSS("backgroundOverlay", ui),
+            filters: Object.fromEntries([
+                ["blur", getCSS("backgroundBlur", ui)],
+                ...filters.map(({key, css}) => [css, getCSS(key, ui)])
+            ]),
+            time: time === 0 ? 0 : Math.max(round(time, 2), 5),
+            order,
+            transition: (get("backgroundTransition", {ui}) ?? "Fade").toLowerCase(),
+            duration: Math.max(round(+get("backgroundTransitionDuration", {ui}) || 0, 2), 0),
+            animation: (get("backgroundAnimation", {ui}) ?? "None").toLowerCase().replace(/ /g, ""),
+            speed: Math.max(round(+get("backgroundAnimationSpeed", {ui}) || 30, 2), 1),
+            amplitude: Math.min(Math.max(round(+get("backgroundAnimationAmplitude", {ui}) || 0, 2), 0), 25),
+            steps: steps[ui],
+            rule: ui === "editor" ? getRule(window.activeTextEditor?.document) : null,
+            themes: getThemes(ui, select),
+            schedules: getSchedules(ui, select)
+        };
+    }
+
+    return state as RuntimeState;
+}
+
+// editor rules
+
+type EditorRule = {
+    language?: string,
+    glob?: string,
+    backgrounds: string | string[]
+};
+
+const matchRule: (document?: TextDocument) => number = (document?: TextDocument) =>
+    !document ? -1 : ((get("editorBackgroundRules") ?? []) as EditorRule[]).findIndex((rule: EditorRule) =>
+        (rule.language || rule.glob) && languages.match({
+            language: rule.language || undefined,
+            pattern: !rule.glob ? undefined : rule.glob.includes('/') ? rule.glob : `**/${rule.glob}` // match file names in any folder
+        }, document) > 0
+    );
+
+const getRule: (document?: TextDocument) => string[] | null = (document?: TextDocument) => {
+    const i: number = matchRule(document);
+    return i === -1 ? null : resolve(((get("editorBackgroundRules") as EditorRule[])[i]).backgrounds);
+}
+
+let activeRule: number = -1;
+
+export const setActiveEditor: (editor?: TextEditor) => void = (editor?: TextEditor) => {
+    const i: number = matchRule(editor?.document);
+    if(i !== activeRule){
+        activeRule = i;
+        writeState();
+    }
+}
+
+// context rules
+
+type ContextRule = {
+    branch?: string,
+    debug?: boolean,
+    backgrounds?: string | string[],
+    tint?: string,
+    uis?: UI[]
+};
+
+let context: {branches: string[], debug: boolean} = {branches: [], debug: false};
+
+// '*' matches within a branch segment and '**' across segments
+const matchBranch: (glob: string, branch: string) => boolean = (glob: string, branch: string) =>
+    new RegExp(`^${glob.split("**").map((part: string) => part.split('*').map(escapeRegExp).join("[^/]*")).join(".*")}$`).test(branch);
+
+const matchContext: () => number = () =>
+    ((get("contextBackgroundRules") ?? []) as ContextRule[]).findIndex((rule: ContextRule) =>
+        (typeof rule.branch === "string" || typeof rule.debug === "boolean") &&
+        (typeof rule.branch !== "string" || context.branches.some((branch: string) => matchBranch(rule.branch!, branch))) &&
+        (typeof rule.debug !== "boolean" || rule.debug === context.debug)
+    );
+
+const getContext: () => RuntimeState["context"] = () => {
+    const i: number = matchContext();
+
+    if(i === -1) return null;
+
+    const rule: ContextRule = (get("contextBackgroundRules") as ContextRule[])[i];
+    const tint: string = sanitizeColor(rule.tint ?? "");
+
+    return {
+        uis: Array.isArray(rule.uis) && rule.uis.length > 0 ? uis.filter((ui: UI) => rule.uis!.includes(ui)) : uis,
+        backgrounds: rule.backgrounds ? resolve(rule.backgrounds) : null,
+        overlay: tint ? `linear-gradient(${tint}, ${tint})` : null
+    };
+}
+
+let activeContext: number = -1;
+
+export const setContext: (changes: Partial<typeof context>) => void = (changes: Partial<typeof context>) => {
+    context = {...context, ...changes};
+
+    const i: number = matchContext();
+    if(i !== activeContext){
+        activeContext = i;
+        writeState();
+    }
+}
+
+// steps
+
+// the injected script only applies step changes within the same session
+const session: string = Date.now().toString(36);
+
+const steps: {[ui in UI]: number} = {window: 0, editor: 0, sidebar: 0, panel: 0, terminal: 0, statusbar: 0, activitybar: 0, titlebar: 0};
+
+export const step: (direction: 1 | -1, ui?: UI) => void = (direction: 1 | -1, ui?: UI) => {
+    for(const u of ui ? [ui] : uis)
+        steps[u] += direction;
+    writeState();
+}
+
+// safe mode
+
+// hides every background until toggled again or the window is reloaded
+let safe: boolean = false;
+
+export const isSafeMode: () => boolean = () => safe;
+
+export const setSafeMode: (enabled: boolean) => void = (enabled: boolean) => {
+    safe = enabled;
+    writeState();
+}
+
+// hidden
+
+// hides every background without uninstalling, remembered between reloads by the extension
+let hidden: boolean = false;
+
+export const isHidden: () => boolean = () => hidden;
+
+export const setHidden: (enabled: boolean) => void = (enabled: boolean) => {
+    hidden = enabled;
+    writeState();
+}
+
+// storage
+
+export const stateName: string = "background.json";
+
+let globalDir: string;
+let workspaceDir: string | undefined;
+
+export const setStorageDir: (global: string, workspace?: string) => void = (global: string, workspace?: string) => {
+    if(!globalDir){ // disallow reassignment
+        globalDir = global;
+        workspaceDir = workspace;
+    }
+}
+
+export const getStorageDir: () => {global: string, workspace: string, folder: string} = () => ({
+    global: globalDir,
+    workspace: workspaceDir ? join(workspaceDir, "..", "..") : join(globalDir, "..", "..", "workspaceStorage"), // workspace id is appended by the injected script
+    folder: basename(workspaceDir ?? globalDir)
+});
+
+// live
+
+let live: boolean = false;
+
+export const setLive: (installed: boolean) => void = (installed: boolean) => {
+    live = installed;
+}
+
+export const isLive: (key?: ConfigurationKey) => boolean = (key?: ConfigurationKey) => live && (!key || runtimeKeys.includes(key));
+
+// write
+
+export const writeState: () => void = () => {
+    if(!globalDir) return;
+
+    const dir: string = workspaceDir ?? globalDir;
+    const file: string = join(dir, stateName);
+
+    try{
+        mkdirSync(dir, {recursive: true});
+        // write to temp first so the injected script never reads a partial file
+        writeFileSync(`${file}.tmp`, JSON.stringify(getState()), "utf-8");
+        renameSync(`${file}.tmp`, file);
+    }catch(error: any){
+        logError("runtime", `Failed to write '${file}'`, error);
+    }
+}
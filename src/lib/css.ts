@@ -27,8 +27,15 @@ export const sanitizeCSS: (css: string) => string = (css: string) =>
 export const sanitizeUnits: (unit: string) => string = (unit: string) =>
     unit.replace(/[^\w.% +-]/gmi, "");
 
+export const sanitizeColor: (color: string) => string = (color: string) =>
+    color.replace(/[^\w#(),.% -]/gmi, "");
+
 // validation
 
 const invalidCSS: RegExp = /[^\w.% +-]/gm;
 
-export const isValidCSS: (css: string) => boolean = (css: string) => !css.match(invalidCSS);
\ No newline at end of file
+export const isValidCSS: (css: string) => boolean = (css: string) => !css.match(invalidCSS);
+
+const invalidColor: RegExp = /[^\w#(),.% -]/gm;
+
+export const isValidColor: (color: string) => boolean = (color: string) => !color.match(invalidColor);
\ No newline at end of file
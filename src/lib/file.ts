@@ -36,6 +36,14 @@ export const copyCommand:
         )
         .join(" && ");
 
+// url
+
+export const vscodeFile: (path: string) => string = (path: string) =>
+    `vscode-file://vscode-app/${path.replace(/\\/g, '/').replace(/^\/+/g, "")}`; // must use '/' for URL
+
+export const fromVscodeFile: (url: string) => string = (url: string) =>
+    url.startsWith("vscode-file://vscode-app/") ? (windows ? '' : '/') + url.slice("vscode-file://vscode-app/".length) : url;
+
 // checksum
 
 export const generateChecksum: (content: string) => string = (content: string) =>
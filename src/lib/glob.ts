@@ -16,20 +16,49 @@
  * 51 Franklin Street, Fifth Floor, Boston, MA 02110-1301 USA.
  */
 
-import { extname } from "path";
+import { dirname, extname, isAbsolute, relative } from "path";
+import { statSync } from "fs";
 import { GlobOptions, globSync, escape as esc } from "glob";
 
 import { extensions } from "../extension/inject";
 
 import { unique } from "./array";
+import { vscodeFile } from "./file";
+import { isProcedural, procedural } from "./procedural";
 import { resolve as resolveEnv } from "../extension/env";
-import { Uri } from "vscode";
+import { getStorageDir } from "../extension/runtime";
+import { cached } from "../services/cache";
+import { Uri, env, extensions as installed } from "vscode";
 
 const filter: (v: string) => boolean = (v : string) => {
     const ext: string = extname(v).slice(1);
     return extensions().includes(ext);
 }
 
+// vscode only serves webm from the app, extensions, and extension storage folders, other videos are served from anywhere
+// https://github.com/microsoft/vscode/blob/main/src/vs/platform/protocol/electron-main/protocolMainService.ts
+
+const isInside: (root: string, path: string) => boolean = (root: string, path: string) => {
+    const rel: string = relative(root, path);
+    return !rel.startsWith("..") && !isAbsolute(rel);
+}
+
+const roots: () => (string | undefined)[] = () => {
+    const storage: {global: string, workspace: string} = getStorageDir();
+    const extension: string | undefined = installed.getExtension("Katsute.code-background")?.extensionPath;
+
+    return [
+        env.appRoot,
+        extension && dirname(extension),
+        dirname(storage.global),
+        storage.workspace
+    ];
+}
+
+const isPlayable: (path: string) => boolean = (path: string) =>
+    extname(path).toLowerCase() !== ".webm" ||
+    roots().some((root?: string) => !!root && isInside(root, path));
+
 const options: GlobOptions = {
     absolute: true,
     nodir: true
@@ -46,27 +75,62 @@ export const count: (glob: string | string[]) => number = (glob: string | string
 
     let globs: string[] = [];
     for(const g of (Array.isArray(glob) ? glob.filter(unique) : [glob]))
-        if(g.startsWith("https://"))
+        if(g.startsWith("https://") || isProcedural(g))
             i++;
         else // do not normalize '/', add file/dir already does this; warning already included in add glob
             globs.push(resolveEnv(g));
 
-    return i + (globSync(globs, options) as string[]).filter(filter).filter(unique).length;
+    return i + (globSync(globs, options) as string[]).filter(filter).filter(isPlayable).filter(unique).length;
+}
+
+const isDirectory: (path: string) => boolean = (path: string) => {
+    try{
+        return statSync(path).isDirectory();
+    }catch{
+        return false;
+    }
 }
 
-export const resolve: (glob: string | string[]) => string[] = (glob: string | string[]) => {
+const mtime: (path: string) => number = (path: string) => {
+    try{
+        return statSync(path).mtimeMs;
+    }catch{
+        return 0;
+    }
+}
+
+export const resolve: (glob: string | string[], sort?: "path" | "modified") => string[] = (glob: string | string[], sort?: "path" | "modified") => {
     let urls: string[] = [];
     let globs: string[] = [];
 
     for(const g of (Array.isArray(glob) ? glob.filter(unique) : [glob]))
         if(g.startsWith("https://"))
-            urls.push(g);
-        else // do not normalize '/', add file/dir already does this; warning already included in add glob
-            globs.push(resolveEnv(g));
+            urls.push(cached(g)); // downloaded copy if available
+        else if(isProcedural(g)){
+            const css: string | undefined = procedural(g);
+            css && urls.push(`css:${css}`); // drawn directly by the injected script
+        }else{ // do not normalize '/', add file/dir already does this; warning already included in add glob
+            const path: string = resolveEnv(g);
+            globs.push(isDirectory(path) ? `${path.replace(/\/+$/, '')}/*` : path); // folders use every file inside
+        }
+
+    const files: string[] = (globSync(globs, options) as string[]).filter(filter).filter(isPlayable);
+
+    if(sort === "path")
+        files.sort((a, b) => a.localeCompare(b, undefined, {numeric: true}));
+    else if(sort === "modified")
+        files.sort((a, b) => mtime(a) - mtime(b));
+
+    return urls.concat(files.map(vscodeFile))
+               .filter(unique);
+}
+
+export const unplayable: (glob: string) => string[] = (glob: string) => {
+    if(glob.startsWith("https://") || isProcedural(glob))
+        return [];
 
-    return urls.concat((globSync(globs, options) as string[])
-                    .filter(filter) // must use '/' for URL ↓
-                    .map(path => `vscode-file://vscode-app/${path.replace(/\\/g, '/').replace(/^\/+/g, "")}`))
-               .filter(unique)
-               .map(path => '"' + path.replace(/"/g, `\\"`) + '"');
+    const path: string = resolveEnv(glob);
+    return (globSync(isDirectory(path) ? `${path.replace(/\/+$/, '')}/*` : path, options) as string[])
+        .filter(filter)
+        .filter((file: string) => !isPlayable(file));
 }
\ No newline at end of file
@@ -0,0 +1,58 @@
+/*
+ * Copyright (C) 2026 Katsute <https://github.com/Katsute>
+ *
+ * This program is free software; you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation; either version 2 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License along
+ * with this program; if not, write to the Free Software Foundation, Inc.,
+ * 51 Franklin Street, Fifth Floor, Boston, MA 02110-1301 USA.
+ */
+import { isValidColor } from "./css";
+
+// css only backgrounds, 'color:<color>', 'gradient:<css gradient>', or 'pattern:<name> [color] [color] [size]'
+
+const gradient: RegExp = /^(repeating-)?(linear|radial|conic)-gradient\(.+\)$/;
+
+export const patterns: {[name: string]: (a: string, b: string, size: string) => string} = {
+    stripes: (a: string, b: string, size: string) =>
+        `repeating-linear-gradient(45deg, ${a} 0 ${size}, ${b} ${size} calc(2 * ${size}))`,
+    lines: (a: string, b: string, size: string) =>
+        `repeating-linear-gradient(0deg, ${a} 0 ${size}, ${b} ${size} calc(2 * ${size}))`,
+    grid: (a: string, b: string, size: string) =>
+        `repeating-linear-gradient(0deg, ${b} 0 1px, transparent 1px ${size}), repeating-linear-gradient(90deg, ${b} 0 1px, transparent 1px ${size}), linear-gradient(${a}, ${a})`,
+    rings: (a: string, b: string, size: string) =>
+        `repeating-radial-gradient(circle, ${a} 0 ${size}, ${b} ${size} calc(2 * ${size}))`
+};
+
+export const isProcedural: (entry: string) => boolean = (entry: string) =>
+    /^(color|gradient|pattern):/.test(entry);
+
+// css background image, or undefined if the entry is invalid
+export const procedural: (entry: string) => string | undefined = (entry: string) => {
+    const type: string = entry.slice(0, entry.indexOf(':'));
+    const value: string = entry.slice(entry.indexOf(':') + 1).trim();
+
+    if(!value || !isValidColor(value))
+        return undefined;
+
+    switch(type){
+        case "color":
+            return `linear-gradient(${value}, ${value})`;
+        case "gradient":
+            return gradient.test(value) ? value : undefined;
+        case "pattern": {
+            const [name, a = "var(--vscode-editor-background)", b = "var(--vscode-editorWidget-background)", size = "16px"] = value.split(/\s+/);
+            return patterns[name]?.(a, b, size);
+        }
+        default:
+            return undefined;
+    }
+}
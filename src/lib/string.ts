@@ -23,4 +23,7 @@ export const appendIf: (s: string, condition: (s: string) => boolean, append: st
     s + (condition(s) ? append : '');
 
 export const capitalize: (s: string) => string = (s: string) =>
-    `${(s[0] ?? "").toUpperCase() + (s ?? "").substring(1)}`;
\ No newline at end of file
+    `${(s[0] ?? "").toUpperCase() + (s ?? "").substring(1)}`;
+
+export const escapeRegExp: (s: string) => string = (s: string) =>
+    s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
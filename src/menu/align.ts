@@ -68,7 +68,7 @@ export const show: (ui: UI) => void = (ui: UI) => {
                             update("backgroundAlignment", prop.items!.enum![9], ui, true)
                                 .then(() => update("backgroundAlignmentValue", value, ui, true))
                                 .then(() => {
-                                    changed && notify();
+                                    changed && notify("backgroundAlignment");
                                     backgroundMenu(ui); // reopen menu
                                 });
                         }
@@ -0,0 +1,97 @@
+/*
+ * Copyright (C) 2026 Katsute <https://github.com/Katsute>
+ *
+ * This program is free software; you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation; either version 2 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License along
+ * with this program; if not, write to the Free Software Foundation, Inc.,
+ * 51 Franklin Street, Fifth Floor, Boston, MA 02110-1301 USA.
+ */
+import { UI, get, update, updateFromLabel } from "../extension/config";
+import { Properties, getConfigurationProperty } from "../extension/package";
+
+import { round } from "../lib/math";
+import { appendS } from "../lib/string";
+import { CommandQuickPickItem, quickPickItem, separator, showInputBox, showQuickPick } from "../lib/vscode";
+
+import { backgroundMenu, title } from "./menu";
+
+const prop: Properties = getConfigurationProperty("backgroundAnimation");
+
+const handle: (item: CommandQuickPickItem) => void = (item: CommandQuickPickItem) =>
+    updateFromLabel("backgroundAnimation", item, item.ui!)
+        .then(() => backgroundMenu(item.ui!)); // reopen menu
+
+export const show: (ui: UI) => void = (ui: UI) => {
+    const current: string = get("backgroundAnimation", {ui}) as string;
+    const speed: number = round(get("backgroundAnimationSpeed", {ui}) as number, 2);
+    const amplitude: number = round(get("backgroundAnimationAmplitude", {ui}) as number, 2);
+
+    showQuickPick([
+        // animation
+        quickPickItem({ label: prop.items!.enum![0], description: prop.items!.enumDescriptions![0], handle, ui }, current),
+        quickPickItem({ label: prop.items!.enum![1], description: prop.items!.enumDescriptions![1], handle, ui }, current),
+        quickPickItem({ label: prop.items!.enum![2], description: prop.items!.enumDescriptions![2], handle, ui }, current),
+        separator(),
+        // speed
+        quickPickItem({ label: "Speed", description: `(${appendS(speed, "second")})`, ui, handle: () => {
+            showInputBox({
+                title: title("Animation Speed", ui),
+                placeHolder: "Animation speed",
+                value: speed.toString(),
+                prompt: `Animation speed (${speed}). How long in seconds one pan of the Ken Burns animation takes.`,
+                validateInput: (value: string) => {
+                    if(isNaN(+value))
+                        return "Not a number";
+                    else if(+value < 1)
+                        return "Animation speed must be at least 1 second";
+                    else
+                        return null;
+                },
+                handle: (value: string) => {
+                    if(!isNaN(+value)){
+                        const o: number = Math.max(round(+value, 2), 1);
+                        update("backgroundAnimationSpeed", o, ui)
+                            .then(() => backgroundMenu(ui)); // reopen menu
+                    }
+                }
+            });
+        }}),
+        // amplitude
+        quickPickItem({ label: "Amplitude", description: `(${amplitude}%)`, ui, handle: () => {
+            showInputBox({
+                title: title("Animation Amplitude", ui),
+                placeHolder: "Animation amplitude",
+                value: amplitude.toString(),
+                prompt: `Animation amplitude (${amplitude}). How far in percent the background zooms and moves.`,
+                validateInput: (value: string) => {
+                    if(isNaN(+value))
+                        return "Not a number";
+                    else if(+value < 0 || +value > 25)
+                        return "Animation amplitude must be between 0 and 25";
+                    else
+                        return null;
+                },
+                handle: (value: string) => {
+                    if(!isNaN(+value)){
+                        const o: number = Math.min(Math.max(round(+value, 2), 0), 25);
+                        update("backgroundAnimationAmplitude", o, ui)
+                            .then(() => backgroundMenu(ui)); // reopen menu
+                    }
+                }
+            });
+        }})
+    ], {
+        title: title("Animation", ui),
+        matchOnDescription: true,
+        placeHolder: "Background animation"
+    });
+};
@@ -0,0 +1,160 @@
+/*
+ * Copyright (C) 2026 Katsute <https://github.com/Katsute>
+ *
+ * This program is free software; you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation; either version 2 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License along
+ * with this program; if not, write to the Free Software Foundation, Inc.,
+ * 51 Franklin Street, Fifth Floor, Boston, MA 02110-1301 USA.
+ */
+import { UI, get, update, uis } from "../extension/config";
+
+import { round } from "../lib/math";
+import { isValidCSS } from "../lib/css";
+import { CommandQuickPickItem, quickPickItem, separator, showInputBox, showQuickPick } from "../lib/vscode";
+
+import { title } from "./menu";
+import { get as getBackgrounds, show as fileMenu } from "./file";
+
+type Display = {size?: string, focus?: number[], opacity?: number};
+
+// config
+
+const getDisplay: (entry: string) => Display = (entry: string) => ({...(get("backgroundDisplay") ?? {})[entry]});
+
+const setDisplay: (entry: string, display: Display) => Promise<void> = (entry: string, display: Display) => {
+    const all: {[entry: string]: Display} = {...get("backgroundDisplay")};
+
+    if(Object.values(display).some(value => value !== undefined))
+        all[entry] = display;
+    else
+        delete all[entry];
+
+    return update("backgroundDisplay", all);
+}
+
+// overrides follow their entry when it is edited, and are dropped once no background list uses the entry anymore
+export const moveDisplay: (entries: string[], to?: string) => Promise<void> = (entries: string[], to?: string) => {
+    const all: {[entry: string]: Display} = {...get("backgroundDisplay")};
+    const used: (entry: string) => boolean = (entry: string) => uis.some(ui => getBackgrounds(ui).includes(entry));
+
+    let changed: boolean = false;
+    for(const entry of entries.filter(entry => all[entry] && entry !== to)){
+        if(to !== undefined && !all[to]){
+            all[to] = all[entry];
+            changed = true;
+        }
+        if(!used(entry)){
+            delete all[entry];
+            changed = true;
+        }
+    }
+
+    return changed ? update("backgroundDisplay", all, undefined, true) : Promise.resolve();
+}
+
+// menu
+
+const sizes: {label: string, description: string}[] = [
+    { label: "Default", description: "Use the background size setting" },
+    { label: "Auto",    description: "Original image size" },
+    { label: "Contain", description: "Fit image to the screen" },
+    { label: "Cover",   description: "Stretch image to fill the screen" },
+    { label: "Manual",  description: "Manual size" }
+];
+
+export const show: (ui: UI, entry: string) => void = (ui: UI, entry: string) => {
+    const display: Display = getDisplay(entry);
+    const current: string = display.size === undefined ? "Default" : ["Auto", "Contain", "Cover"].includes(display.size) ? display.size : "Manual";
+
+    const reopen: () => void = () => show(ui, entry);
+
+    showQuickPick([
+        // size
+        quickPickItem({ label: "$(screen-full) Size", description: display.size ?? "Default", ui, handle: () =>
+            showQuickPick(sizes.map(size => quickPickItem({ ...size, ui, handle: (item: CommandQuickPickItem) => {
+                if(item.label === "Manual")
+                    showInputBox({
+                        title: title("Display Size", ui),
+                        placeHolder: "Background size",
+                        value: current === "Manual" ? display.size : "",
+                        prompt: "Background size (css), like '50%' or '1920px auto'.",
+                        validateInput: (value: string) => !isValidCSS(value) ? "Invalid CSS" : null,
+                        handle: (value: string) => {
+                            if(isValidCSS(value))
+                                setDisplay(entry, {...display, size: value.trim() || undefined}).then(reopen);
+                        }
+                    });
+                else
+                    setDisplay(entry, {...display, size: item.label === "Default" ? undefined : item.label}).then(reopen);
+            }}, current)), {
+                title: title("Display Size", ui),
+                matchOnDescription: true,
+                placeHolder: "Background size"
+            }, reopen)
+        }),
+        // focal point
+        quickPickItem({ label: "$(target) Focal Point", description: display.focus ? `${display.focus[0]}% ${display.focus[1]}%` : "Default", ui, handle: () =>
+            showInputBox({
+                title: title("Display Focal Point", ui),
+                placeHolder: "x, y",
+                value: display.focus?.join(", ") ?? "50, 50",
+                prompt: "The part of the image that stays visible when it is cropped, in percent from the top left. Leave blank to use the alignment setting.",
+                validateInput: (value: string) => {
+                    const focus: number[] = value.split(',').map(n => +n);
+                    if(!value.trim())
+                        return null;
+                    else if(focus.length !== 2 || focus.some(n => isNaN(n)))
+                        return "Focal point must be two numbers, like '50, 25'";
+                    else if(focus.some(n => n < 0 || n > 100))
+                        return "Focal point must be between 0 and 100";
+                    else
+                        return null;
+                },
+                handle: (value: string) => {
+                    const focus: number[] = value.split(',').map(n => Math.min(Math.max(round(+n, 2), 0), 100));
+                    if(!value.trim() || (focus.length === 2 && focus.every(n => !isNaN(n))))
+                        setDisplay(entry, {...display, focus: value.trim() ? focus : undefined}).then(reopen);
+                }
+            })
+        }),
+        // opacity
+        quickPickItem({ label: "$(eye) Opacity", description: display.opacity !== undefined ? `${display.opacity}` : "Default", ui, handle: () =>
+            showInputBox({
+                title: title("Display Opacity", ui),
+                placeHolder: "Background opacity",
+                value: display.opacity?.toString() ?? "",
+                prompt: "Background opacity for this entry, 1 is fully visible and 0 is invisible. Leave blank to use the opacity setting.",
+                validateInput: (value: string) => {
+                    if(!value.trim())
+                        return null;
+                    else if(isNaN(+value))
+                        return "Not a number";
+                    else if(+value < 0 || +value > 1)
+                        return "Opacity must be between 0 and 1";
+                    else
+                        return null;
+                },
+                handle: (value: string) => {
+                    if(!value.trim() || !isNaN(+value))
+                        setDisplay(entry, {...display, opacity: value.trim() ? Math.min(Math.max(round(+value, 2), 0), 1) : undefined}).then(reopen);
+                }
+            })
+        }),
+        separator(),
+        // reset
+        quickPickItem({ label: "$(discard) Reset", ui, handle: () => setDisplay(entry, {}).then(reopen) })
+    ], {
+        title: title("Adjust Display", ui),
+        placeHolder: entry
+    },
+    () => fileMenu(ui));
+};
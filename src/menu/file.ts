@@ -18,24 +18,36 @@
 
 import { Uri, window } from "vscode";
 
-import { extensions } from "../extension/inject";
+import { extensions, videoExtensions } from "../extension/inject";
 import { UI, get as getConfig, update } from "../extension/config";
 
 import { appendS } from "../lib/string";
-import { count, escapePath } from "../lib/glob";
+import { count, escapePath, unplayable } from "../lib/glob";
 import { unique } from "../lib/array";
+import { procedural } from "../lib/procedural";
 import { CommandQuickPickItem, quickPickItem, separator, showInputBox, showQuickPick } from "../lib/vscode";
 
 import { backgroundMenu, title } from "./menu";
+import { moveDisplay, show as displayMenu } from "./display";
 
 // config
 
 export const get: (ui: UI) => string[] = (ui: UI) => getConfig(`${ui}Backgrounds`);
 
 export const add: (ui: UI, glob: string | string[], skipNotification?: boolean) => Promise<void> = async (ui: UI, glob: string | string[], skipNotification: boolean = false) => {
+    // webm is only served from the app, extensions, and extension storage folders, entries with nothing else to show are not added
+    const entries: string[] = !Array.isArray(glob) ? [glob] : glob;
+    const skipped: string[] = entries.flatMap(unplayable).filter(unique);
+
+    skipped.length > 0 && window.showWarningMessage(
+        `${appendS(skipped, "webm file")} can not be played from outside of the VSCode install, extensions, or extension storage folders, ` +
+        "convert them to mp4 to play them from anywhere",
+        { detail: skipped.join('\n') }
+    );
+
     // add
     const globs: string[] = get(ui);
-    globs.push(...(!Array.isArray(glob) ? [glob] : glob));
+    globs.push(...entries.filter((entry: string) => unplayable(entry).length === 0 || count(entry) > 0));
 
     // update
     await update(`${ui}Backgrounds`, globs.filter(unique), undefined, skipNotification);
@@ -53,6 +65,7 @@ export const replace: (ui: UI, replace: string, glob: string, skipNotification?:
 
     // updates
     await update(`${ui}Backgrounds`, files.filter(unique), undefined, skipNotification || replace === glob);
+    await moveDisplay([replace], glob);
     skipNotification || show(ui); // reopen menu
 }
 
@@ -67,9 +80,73 @@ export const remove: (ui: UI, glob: string | string[], skipNotification?: boolea
         undefined,
         skipNotification
     );
+    await moveDisplay(match);
     skipNotification || show(ui); // reopen menu
 }
 
+// css only backgrounds
+
+const builders: {label: string, description: string, prefix: string, suffix?: string, value: string}[] = [
+    { label: "Solid Color",     description: "A single color",                     prefix: "color:",                     value: "#1e1e1e" },
+    { label: "Linear Gradient", description: "Colors along a line",                prefix: "gradient:linear-gradient(",  suffix: ")", value: "135deg, #1e1e1e, #3a1c71" },
+    { label: "Radial Gradient", description: "Colors from the center outwards",    prefix: "gradient:radial-gradient(",  suffix: ")", value: "circle, #3a1c71, #1e1e1e" },
+    { label: "Conic Gradient",  description: "Colors around the center",           prefix: "gradient:conic-gradient(",   suffix: ")", value: "from 0deg, #1e1e1e, #3a1c71, #1e1e1e" },
+    { label: "Stripes",         description: "Diagonal stripes",                   prefix: "pattern:stripes ",           value: "#1e1e1e #252526 16px" },
+    { label: "Lines",           description: "Horizontal lines",                   prefix: "pattern:lines ",             value: "#1e1e1e #252526 16px" },
+    { label: "Grid",            description: "Grid lines over a background color", prefix: "pattern:grid ",              value: "#1e1e1e #333333 32px" },
+    { label: "Rings",           description: "Rings from the center outwards",     prefix: "pattern:rings ",             value: "#1e1e1e #252526 16px" }
+];
+
+const build: (ui: UI) => void = (ui: UI) =>
+    showQuickPick(builders.map(builder => quickPickItem({
+        label: builder.label,
+        description: builder.description,
+        ui,
+        handle: () => showInputBox({
+            title: title(`Add ${builder.label}`, ui),
+            placeHolder: builder.value,
+            value: builder.value,
+            prompt: `${builder.prefix}...${builder.suffix ?? ""}. Any css colors and sizes, theme color variables like 'var(--vscode-editor-background)' are supported.`,
+            validateInput: (value: string) =>
+                !procedural(builder.prefix + value + (builder.suffix ?? "")) ? `Invalid ${builder.label.toLowerCase()}` : null,
+            handle: (value: string) => {
+                const entry: string = builder.prefix + value + (builder.suffix ?? "");
+                procedural(entry) && add(ui, entry);
+            }
+        })
+    })), {
+        title: title("Add Gradient or Pattern", ui),
+        matchOnDescription: true,
+        placeHolder: "Gradient or pattern"
+    },
+    () => show(ui));
+
+// update input
+
+const edit: (ui: UI, glob: string) => void = (ui: UI, glob: string) =>
+    showInputBox({
+        title: `Update ${glob}`,
+        placeHolder: "File path, glob, or URL; leave blank to remove",
+        value: glob,
+        prompt: "Use only '/' for directories, '\\' is reserved for escape characters. Leave this field blank to remove.",
+        // validation
+        validateInput: (value: string) => {
+            if(value.startsWith("file://"))
+                return "Do not include 'file://' as part of the file path";
+            else if(value.startsWith("http://"))
+                return "Images must be served over HTTPS";
+            else
+                return null;
+        },
+        // update
+        handle: (value: string) => {
+            if(value.trim().length === 0)
+                remove(ui, glob);
+            else
+                replace(ui, glob, value);
+        }
+    });
+
 // menu
 
 export const show: (ui: UI) => void = (ui: UI) =>{
@@ -81,30 +158,16 @@ export const show: (ui: UI) => void = (ui: UI) =>{
             value: glob,
             ui,
             description: `${appendS(count(glob), "matching file")}`,
-            // update input
+            // entry menu
             handle: (item: CommandQuickPickItem) =>
-                showInputBox({
-                    title: `Update ${item.value}`,
-                    placeHolder: "File path, glob, or URL; leave blank to remove",
-                    value: item.value ?? "",
-                    prompt: "Use only '/' for directories, '\\' is reserved for escape characters. Leave this field blank to remove.",
-                    // validation
-                    validateInput: (value: string) => {
-                        if(value.startsWith("file://"))
-                            return "Do not include 'file://' as part of the file path";
-                        else if(value.startsWith("http://"))
-                            return "Images must be served over HTTPS";
-                        else
-                            return null;
-                    },
-                    // update
-                    handle: (value: string) => {
-                        if(value.trim().length === 0)
-                            remove(ui, item.value!);
-                        else
-                            replace(ui, item.value!, value);
-                    }
-                })
+                showQuickPick([
+                    quickPickItem({ label: "$(edit) Edit", ui, handle: () => edit(ui, item.value!) }),
+                    quickPickItem({ label: "$(settings) Adjust Display", description: "Size, focal point, and opacity for this entry", ui, handle: () => displayMenu(ui, item.value!) })
+                ], {
+                    title: title("Files", ui),
+                    placeHolder: item.value
+                },
+                () => show(ui))
         }));
 
     // menu
@@ -123,7 +186,7 @@ export const show: (ui: UI) => void = (ui: UI) =>{
                     canSelectFolders: false,
                     canSelectMany: true,
                     openLabel: "Select Image",
-                    filters: {"Images": extensions()}
+                    filters: {"Images": extensions().filter(ext => !videoExtensions().includes(ext)), "Videos": videoExtensions()}
                 }).then((files?: Uri[]) =>
                     files && add(ui, files.map(file => escapePath(file)))
                 )
@@ -186,6 +249,12 @@ export const show: (ui: UI) => void = (ui: UI) =>{
                     url && add(ui, url);
                 })
         }),
+        quickPickItem({ // gradient or pattern
+            alwaysShow: true,
+            label: "$(symbol-color) Add a Gradient or Pattern",
+            ui,
+            handle: () => build(ui)
+        }),
         // delete
         ... items.length > 0 ? [
             separator(),
@@ -0,0 +1,53 @@
+/*
+ * Copyright (C) 2026 Katsute <https://github.com/Katsute>
+ *
+ * This program is free software; you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation; either version 2 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License along
+ * with this program; if not, write to the Free Software Foundation, Inc.,
+ * 51 Franklin Street, Fifth Floor, Boston, MA 02110-1301 USA.
+ */
+import { UI, filters, get, update } from "../extension/config";
+import { getConfigurationProperty } from "../extension/package";
+
+import { isValidCSS } from "../lib/css";
+import { quickPickItem, showInputBox, showQuickPick } from "../lib/vscode";
+
+import { backgroundMenu, title } from "./menu";
+
+export const show: (ui: UI) => void = (ui: UI) =>
+    showQuickPick(filters.map(({key, label}) => quickPickItem({
+        label,
+        description: `${get(key, {ui})}`,
+        detail: getConfigurationProperty(key).markdownDescription.replace(/`/g, ''),
+        ui,
+        handle: () => {
+            const current: string = get(key, {ui}) as string;
+
+            showInputBox({
+                title: title(label, ui),
+                placeHolder: `Background ${label.toLowerCase()}`,
+                value: current,
+                prompt: `Background ${label.toLowerCase()} (${current})`,
+                validateInput: (value: string) => !isValidCSS(value) ? "Invalid CSS" : null,
+                handle: (value: string) => {
+                    if(isValidCSS(value))
+                        update(key, value, ui)
+                            .then(() => show(ui)); // reopen menu
+                }
+            });
+        }
+    })), {
+        title: title("Filters", ui),
+        matchOnDescription: true,
+        matchOnDetail: true,
+        placeHolder: "Background filter"
+    }, () => backgroundMenu(ui));
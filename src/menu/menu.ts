@@ -19,8 +19,8 @@
 import { platform, release } from "os";
 import { ConfigurationTarget, Uri, commands, env, version } from "vscode";
 
-import { ConfigurationKey, pkg } from "../extension/package";
-import { UI, configuration, get, target, update } from "../extension/config";
+import { ConfigurationKey, getConfigurationProperty, pkg } from "../extension/package";
+import { UI, configuration, filters, get, target, update } from "../extension/config";
 
 import { count } from "../lib/glob";
 import { appendS, appendIf, capitalize } from "../lib/string";
@@ -28,11 +28,17 @@ import { CommandQuickPickItem, quickPickItem, separator, showQuickPick } from ".
 
 import { show as fileMenu } from "./file";
 import { show as alignMenu } from "./align";
+import { show as animationMenu } from "./animation";
 import { show as blurMenu } from "./blur";
+import { show as collageMenu } from "./collage";
+import { show as filterMenu } from "./filter";
 import { show as opacityMenu } from "./opacity";
+import { show as orderMenu } from "./order";
+import { show as overlayMenu } from "./overlay";
 import { show as repeatMenu } from "./repeat";
 import { show as sizeMenu } from "./size";
 import { show as timeMenu } from "./time";
+import { show as transitionMenu } from "./transition";
 
 const issueUrl: string = `https://github.com/KatsuteDev/Background/issues/new?template=bug.yml&os=${encodeURIComponent(`${platform()} ${release()}`)}&vs=${encodeURIComponent(version)}&version=${encodeURIComponent(pkg.version)}`;
 const featureUrl: string = "https://github.com/KatsuteDev/Background/issues/new?template=feature.yml";
@@ -46,6 +52,10 @@ export const optionMenu: () => void = () =>
         getQuickPick("editor", "multiple-windows"),
         getQuickPick("sidebar", "layout-sidebar-left"),
         getQuickPick("panel", "layout-panel"),
+        getQuickPick("terminal", "terminal"),
+        getQuickPick("statusbar", "layout-statusbar"),
+        getQuickPick("activitybar", "layout-activitybar-left"),
+        getQuickPick("titlebar", "layout-menubar"),
         // commands
         separator(),
         quickPickItem({
@@ -110,6 +120,24 @@ const moreMenu: (selected?: number) => void = (selected?: number) => {
             detail: "Use an inverted opacity, so 0 is fully visible and 1 is invisible",
             handle: handleBool("useInvertedOpacity", i++)
         }),
+        quickPickItem({
+            label: "Readability Guard",
+            description: descriptionBool("readabilityGuard"),
+            detail: "Lower the brightness or opacity of backgrounds that make text hard to read",
+            handle: handleBool("readabilityGuard", i++)
+        }),
+        quickPickItem({
+            label: "Sync Windows",
+            description: descriptionBool("syncWindows"),
+            detail: "Show the same backgrounds in every window and change them at the same moment",
+            handle: handleBool("syncWindows", i++)
+        }),
+        quickPickItem({
+            label: "Auto Hide",
+            description: descriptionBool("autoHide"),
+            detail: "Hide backgrounds while the window is full screen",
+            handle: handleBool("autoHide", i++)
+        }),
         quickPickItem({
             label: "Smooth Image Rendering",
             description: descriptionBool("smoothImageRendering"),
@@ -119,7 +147,7 @@ const moreMenu: (selected?: number) => void = (selected?: number) => {
         quickPickItem({
             label: "Setting Scope",
             description: `[${get("settingScope")}]`,
-            detail: "Where to save settings; workspace requires Auto Install to update background on switch",
+            detail: "Where to save settings; each window uses the settings of its own workspace",
             handle: ((x: number) => () => update("settingScope", get("settingScope") === "Global" ? "Workspace" : "Global").then(() => moreMenu(x)))(i++)
         }),
         quickPickItem({
@@ -211,6 +239,16 @@ export const backgroundMenu: (ui: UI) => void = (ui: UI) =>
             ui,
             handle: () => blurMenu(ui)
         }),
+        quickPickItem({
+            label: "$(symbol-color) Filters",
+            description: filters
+                .filter(({key}) => get(key, {ui}) !== getConfigurationProperty(key).default[0])
+                .map(({key, label}) => `${label} ${get(key, {ui})}`)
+                .join(" • ") || "None",
+            detail: "Background image grayscale, saturation, hue, brightness, contrast, sepia, and inversion",
+            ui,
+            handle: () => filterMenu(ui)
+        }),
         quickPickItem({
             label: "$(color-mode) Opacity",
             description: `${get("backgroundOpacity", {ui})}`,
@@ -218,6 +256,13 @@ export const backgroundMenu: (ui: UI) => void = (ui: UI) =>
             ui,
             handle: () => opacityMenu(ui)
         }),
+        quickPickItem({
+            label: "$(layers) Overlay",
+            description: `${appendIf(get("backgroundOverlay", {ui}), s => s !== "None", ` (${get("backgroundOverlayColor", {ui})}, ${get("backgroundOverlayOpacity", {ui})})`)}`,
+            detail: "Color, gradient, or vignette drawn over the background image",
+            ui,
+            handle: () => overlayMenu(ui)
+        }),
         quickPickItem({
             label: "$(multiple-windows) Repeat",
             description: `${get("backgroundRepeat", {ui})}`,
@@ -232,12 +277,40 @@ export const backgroundMenu: (ui: UI) => void = (ui: UI) =>
             ui,
             handle: () => sizeMenu(ui)
         }),
+        ...ui === "editor" ? [] : [quickPickItem({
+            label: "$(layout) Collage",
+            description: `${get("backgroundCollage", {ui})}`,
+            detail: "Show several backgrounds at once in a grid",
+            ui,
+            handle: () => collageMenu(ui)
+        })],
         quickPickItem({
             label: "$(clock) Time",
             description: `${appendS(+get("backgroundChangeTime", {ui}), "second")}`,
             detail: "How often to change the background",
             ui,
             handle: () => timeMenu(ui)
+        }),
+        quickPickItem({
+            label: "$(list-ordered) Order",
+            description: `${get("backgroundOrder", {ui})}`,
+            detail: "The order to change backgrounds in",
+            ui,
+            handle: () => orderMenu(ui)
+        }),
+        quickPickItem({
+            label: "$(sparkle) Transition",
+            description: `${get("backgroundTransition", {ui})} (${appendS(+get("backgroundTransitionDuration", {ui}), "second")})`,
+            detail: "The effect used when the background changes",
+            ui,
+            handle: () => transitionMenu(ui)
+        }),
+        quickPickItem({
+            label: "$(play) Animation",
+            description: `${get("backgroundAnimation", {ui})}`,
+            detail: "A slow pan and zoom or a parallax effect that follows the editor scroll position",
+            ui,
+            handle: () => animationMenu(ui)
         })
     ], {
         title: `${capitalize(ui)} Background` + (target() === ConfigurationTarget.Workspace ? " (Workspace)": ""),
@@ -0,0 +1,88 @@
+/*
+ * Copyright (C) 2026 Katsute <https://github.com/Katsute>
+ *
+ * This program is free software; you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation; either version 2 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License along
+ * with this program; if not, write to the Free Software Foundation, Inc.,
+ * 51 Franklin Street, Fifth Floor, Boston, MA 02110-1301 USA.
+ */
+import { UI, get, update, updateFromLabel } from "../extension/config";
+import { Properties, getConfigurationProperty } from "../extension/package";
+
+import { round } from "../lib/math";
+import { isValidColor } from "../lib/css";
+import { CommandQuickPickItem, quickPickItem, separator, showInputBox, showQuickPick } from "../lib/vscode";
+
+import { backgroundMenu, title } from "./menu";
+
+const prop: Properties = getConfigurationProperty("backgroundOverlay");
+
+const handle: (item: CommandQuickPickItem) => void = (item: CommandQuickPickItem) =>
+    updateFromLabel("backgroundOverlay", item, item.ui!)
+        .then(() => backgroundMenu(item.ui!)); // reopen menu
+
+export const show: (ui: UI) => void = (ui: UI) => {
+    const current: string = get("backgroundOverlay", {ui}) as string;
+    const color: string = get("backgroundOverlayColor", {ui}) as string;
+    const opacity: number = round(get("backgroundOverlayOpacity", {ui}) as number, 2);
+
+    showQuickPick([
+        // overlay
+        quickPickItem({ label: prop.items!.enum![0], description: prop.items!.enumDescriptions![0], handle, ui }, current),
+        quickPickItem({ label: prop.items!.enum![1], description: prop.items!.enumDescriptions![1], handle, ui }, current),
+        quickPickItem({ label: prop.items!.enum![2], description: prop.items!.enumDescriptions![2], handle, ui }, current),
+        quickPickItem({ label: prop.items!.enum![3], description: prop.items!.enumDescriptions![3], handle, ui }, current),
+        quickPickItem({ label: prop.items!.enum![4], description: prop.items!.enumDescriptions![4], handle, ui }, current),
+        separator(),
+        // color
+        quickPickItem({ label: "Color", description: `(${color})`, ui, handle: () => {
+            showInputBox({
+                title: title("Overlay Color", ui),
+                placeHolder: "Overlay color",
+                value: color,
+                prompt: `Overlay color (${color}). Any css color or theme color variable like 'var(--vscode-editor-background)'.`,
+                validateInput: (value: string) => !isValidColor(value) ? "Invalid color" : null,
+                handle: (value: string) => {
+                    if(isValidColor(value))
+                        update("backgroundOverlayColor", value, ui)
+                            .then(() => backgroundMenu(ui)); // reopen menu
+                }
+            });
+        }}),
+        // opacity
+        quickPickItem({ label: "Opacity", description: `(${opacity})`, ui, handle: () => {
+            showInputBox({
+                title: title("Overlay Opacity", ui),
+                placeHolder: "Overlay opacity",
+                value: opacity.toString(),
+                prompt: `Overlay opacity (${opacity}). 1 is fully visible and 0 is invisible.`,
+                validateInput: (value: string) => {
+                    if(isNaN(+value))
+                        return "Not a number";
+                    else if(+value < 0 || +value > 1)
+                        return "Opacity must be between 0 and 1";
+                    else
+                        return null;
+                },
+                handle: (value: string) => {
+                    if(!isNaN(+value))
+                        update("backgroundOverlayOpacity", Math.min(Math.max(round(+value, 2), 0), 1), ui)
+                            .then(() => backgroundMenu(ui)); // reopen menu
+                }
+            });
+        }})
+    ], {
+        title: title("Overlay", ui),
+        matchOnDescription: true,
+        placeHolder: "Background overlay"
+    });
+};
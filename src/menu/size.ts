@@ -55,7 +55,7 @@ export const show: (ui: UI) => void = (ui: UI) => {
                         update("backgroundSize", prop.items!.enum![3], ui, true)
                             .then(() => update("backgroundSizeValue", value, ui, true))
                             .then(() => {
-                                changed && notify();
+                                changed && notify("backgroundSize");
                                 backgroundMenu(ui); // reopen menu
                             });
                     }
@@ -0,0 +1,74 @@
+/*
+ * Copyright (C) 2026 Katsute <https://github.com/Katsute>
+ *
+ * This program is free software; you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation; either version 2 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License along
+ * with this program; if not, write to the Free Software Foundation, Inc.,
+ * 51 Franklin Street, Fifth Floor, Boston, MA 02110-1301 USA.
+ */
+import { UI, get, update, updateFromLabel } from "../extension/config";
+import { Properties, getConfigurationProperty } from "../extension/package";
+
+import { round } from "../lib/math";
+import { appendS } from "../lib/string";
+import { CommandQuickPickItem, quickPickItem, separator, showInputBox, showQuickPick } from "../lib/vscode";
+
+import { backgroundMenu, title } from "./menu";
+
+const prop: Properties = getConfigurationProperty("backgroundTransition");
+
+const handle: (item: CommandQuickPickItem) => void = (item: CommandQuickPickItem) =>
+    updateFromLabel("backgroundTransition", item, item.ui!)
+        .then(() => backgroundMenu(item.ui!)); // reopen menu
+
+export const show: (ui: UI) => void = (ui: UI) => {
+    const current: string = get("backgroundTransition", {ui}) as string;
+    const duration: number = round(get("backgroundTransitionDuration", {ui}) as number, 2);
+
+    showQuickPick([
+        // transition
+        quickPickItem({ label: prop.items!.enum![0], description: prop.items!.enumDescriptions![0], handle, ui }, current),
+        quickPickItem({ label: prop.items!.enum![1], description: prop.items!.enumDescriptions![1], handle, ui }, current),
+        quickPickItem({ label: prop.items!.enum![2], description: prop.items!.enumDescriptions![2], handle, ui }, current),
+        quickPickItem({ label: prop.items!.enum![3], description: prop.items!.enumDescriptions![3], handle, ui }, current),
+        quickPickItem({ label: prop.items!.enum![4], description: prop.items!.enumDescriptions![4], handle, ui }, current),
+        separator(),
+        // duration
+        quickPickItem({ label: "Duration", description: `(${appendS(duration, "second")})`, ui, handle: () => {
+            showInputBox({
+                title: title("Transition Duration", ui),
+                placeHolder: "Transition duration",
+                value: duration.toString(),
+                prompt: `Transition duration (${duration}). How long in seconds the transition between backgrounds takes.`,
+                validateInput: (value: string) => {
+                    if(isNaN(+value))
+                        return "Not a number";
+                    else if(+value < 0)
+                        return "Transition duration must be a positive number";
+                    else
+                        return null;
+                },
+                handle: (value: string) => {
+                    if(!isNaN(+value)){
+                        const o: number = Math.max(round(+value, 2), 0);
+                        update("backgroundTransitionDuration", o, ui)
+                            .then(() => backgroundMenu(ui)); // reopen menu
+                    }
+                }
+            });
+        }})
+    ], {
+        title: title("Transition", ui),
+        matchOnDescription: true,
+        placeHolder: "Background transition"
+    });
+};
@@ -0,0 +1,251 @@
+import { join } from "path";
+import { request } from "https";
+import { createHash } from "crypto";
+import { IncomingMessage } from "http";
+import { createWriteStream, existsSync, mkdirSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from "fs";
+
+import { get } from "../extension/config";
+import { writeState } from "../extension/runtime";
+import { vscodeFile } from "../lib/file";
+import { logError, logInfo } from "../lib/log";
+
+type CacheEntry = {
+    file: string,
+    size: number,
+    used: number
+};
+
+// only types that the workbench can display, see extensions in inject.ts
+const contentTypes: {[type: string]: string} = {
+    "image/png": "png",
+    "image/jpeg": "jpg",
+    "image/gif": "gif",
+    "image/webp": "webp",
+    "image/bmp": "bmp",
+    "image/svg+xml": "svg",
+    "video/mp4": "mp4",
+    "video/webm": "webm"
+};
+
+const maxRedirects = 5;
+const requestTimeout = 30 * 1000; // stalled servers would otherwise keep the url pending for the whole session
+
+let dir: string | undefined;
+let index: {[url: string]: CacheEntry} = {};
+let indexTime: number | undefined;
+let saveTimer: NodeJS.Timeout | undefined;
+
+const used: {[url: string]: number} = {}; // last use of each url since the index was saved
+
+const pending = new Set<string>();
+const failed = new Set<string>(); // do not retry failed downloads until the next session
+
+export const setCacheDir = (path: string): void => {
+    if(!dir){ // disallow reassignment
+        dir = path;
+    }
+};
+
+const limit = (): number => Math.max(+get("cacheSize") || 0, 0) * 1024 * 1024;
+
+const modified = (file: string): number => {
+    try{
+        return statSync(file).mtimeMs;
+    }catch{
+        return 0; // no index yet
+    }
+};
+
+// every window shares the cache, so read the index again whenever another window saved it
+const getIndex = (): {[url: string]: CacheEntry} => {
+    const file = join(dir!, "cache.json");
+    const time = modified(file);
+
+    if(time !== indexTime){
+        try{
+            index = JSON.parse(readFileSync(file, "utf-8"));
+        }catch{
+            index = {};
+        }
+        indexTime = time;
+
+        for(const [url, last] of Object.entries(used)){
+            index[url] && (index[url].used = Math.max(index[url].used, last));
+        }
+    }
+
+    return index;
+};
+
+// callers change the index right after reading it, so only changes from this window are written over the latest index
+const saveIndex = (): void => {
+    clearTimeout(saveTimer);
+    saveTimer = undefined;
+
+    const file = join(dir!, "cache.json");
+
+    try{
+        const current = getIndex();
+
+        mkdirSync(dir!, { recursive: true });
+        // write to temp first so other windows never read a partial index
+        writeFileSync(`${file}.${process.pid}.tmp`, JSON.stringify(current), "utf-8");
+        renameSync(`${file}.${process.pid}.tmp`, file);
+
+        indexTime = modified(file);
+        for(const url of Object.keys(used)){
+            delete used[url];
+        }
+    }catch(error){
+        logError("cache", "Failed to save cache index", error);
+    }
+};
+
+const remove = (url: string): void => {
+    const entry = getIndex()[url];
+    delete getIndex()[url];
+
+    try{
+        entry && unlinkSync(join(dir!, entry.file));
+    }catch{
+        // already removed
+    }
+};
+
+const evict = (): void => {
+    const entries = Object.entries(getIndex()).sort(([, a], [, b]) => a.used - b.used); // least recently used first
+    let total = entries.reduce((sum, [, entry]) => sum + entry.size, 0);
+
+    for(const [url, entry] of entries){
+        if(total <= limit()){
+            break;
+        }
+
+        remove(url);
+        total -= entry.size;
+        logInfo("cache", `Evicted ${url}`);
+    }
+};
+
+const download = (url: string, path: string, redirects = 0): Promise<{size: number, ext: string}> =>
+    new Promise((resolve, reject) => {
+        const req = request(url, {
+            headers: {
+                "user-agent": "Background VSCode Extension"
+            }
+        }, (res: IncomingMessage) => {
+            const status = res.statusCode ?? 0;
+
+            if(status >= 300 && status < 400 && res.headers.location){
+                res.resume();
+                const location = new URL(res.headers.location, url).toString();
+
+                if(redirects >= maxRedirects){
+                    reject(new Error("Too many redirects"));
+                }else if(!location.startsWith("https://")){
+                    reject(new Error(`Redirected to non HTTPS URL '${location}'`));
+                }else{
+                    download(location, path, redirects + 1).then(resolve, reject);
+                }
+                return;
+            }
+
+            if(status < 200 || status >= 300){
+                res.resume();
+                reject(new Error(`Request failed (${status})`));
+                return;
+            }
+
+            const type = (res.headers["content-type"] ?? "").split(';')[0].trim().toLowerCase();
+            const ext = contentTypes[type];
+
+            if(!ext){
+                res.resume();
+                reject(new Error(`Unsupported content type '${type}'`));
+                return;
+            }
+
+            const out = createWriteStream(path);
+            let size = 0;
+
+            res.on("data", (chunk: Buffer) => {
+                size += chunk.length;
+                if(size > limit()){
+                    out.destroy();
+                    res.destroy(new Error("File is larger than the cache size"));
+                }
+            });
+            res.on("error", (error: Error) => {
+                out.destroy();
+                reject(error);
+            });
+            out.on("error", reject);
+            out.on("finish", () => resolve({ size, ext }));
+
+            res.pipe(out);
+        });
+
+        req.setTimeout(requestTimeout, () => req.destroy(new Error("Request timed out")));
+        req.on("error", reject);
+        req.end();
+    });
+
+export const cache = (url: string): void => {
+    if(!dir || limit() === 0 || pending.has(url) || failed.has(url) || getIndex()[url]){
+        return;
+    }
+
+    const name = createHash("sha256").update(url).digest("hex").slice(0, 32);
+    const temp = join(dir, `${name}.tmp`);
+
+    pending.add(url);
+
+    try{
+        mkdirSync(dir, { recursive: true });
+    }catch(error){
+        logError("cache", `Failed to create '${dir}'`, error);
+    }
+
+    download(url, temp)
+        .then(({ size, ext }) => {
+            const file = `${name}.${ext}`;
+            renameSync(temp, join(dir!, file));
+
+            getIndex()[url] = { file, size, used: Date.now() };
+            evict();
+            saveIndex();
+
+            logInfo("cache", `Cached ${url} (${size} bytes)`);
+            writeState(); // switch to the cached file
+        })
+        .catch((error) => {
+            failed.add(url);
+            try{
+                unlinkSync(temp);
+            }catch{
+                // nothing was written
+            }
+            logError("cache", `Failed to cache '${url}'`, error);
+        })
+        .finally(() => pending.delete(url));
+};
+
+export const cached = (url: string): string => {
+    if(!dir || limit() === 0){
+        return url;
+    }
+
+    const entry = getIndex()[url];
+
+    if(entry && existsSync(join(dir, entry.file))){
+        entry.used = used[url] = Date.now();
+        saveTimer ??= setTimeout(saveIndex, 5000);
+        return vscodeFile(join(dir, entry.file));
+    }else if(entry){ // file was deleted
+        remove(url);
+        saveIndex();
+    }
+
+    cache(url);
+    return url;
+};
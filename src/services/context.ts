@@ -0,0 +1,74 @@
+import { Disposable, Event, debug, extensions } from "vscode";
+
+import { setContext } from "../extension/runtime";
+import { logError } from "../lib/log";
+
+// only the parts of the built in git extension api that are used
+
+type Repository = {
+    state: {
+        HEAD?: { name?: string },
+        onDidChange: Event<void>
+    }
+};
+
+type GitAPI = {
+    repositories: Repository[],
+    onDidOpenRepository: Event<Repository>,
+    onDidCloseRepository: Event<Repository>
+};
+
+const branches = (git: GitAPI): string[] =>
+    git.repositories
+        .map((repository) => repository.state.HEAD?.name)
+        .filter((name): name is string => !!name);
+
+const getGit = async (): Promise<GitAPI | undefined> => {
+    const extension = extensions.getExtension<{ getAPI: (version: 1) => GitAPI }>("vscode.git");
+
+    if(!extension){ // git is disabled
+        return undefined;
+    }
+
+    return (extension.isActive ? extension.exports : await extension.activate()).getAPI(1);
+};
+
+export const watchContext = async (): Promise<Disposable> => {
+    const sessions = new Set<string>();
+    const disposables: Disposable[] = [
+        debug.onDidStartDebugSession((session) => {
+            sessions.add(session.id);
+            setContext({ debug: true });
+        }),
+        debug.onDidTerminateDebugSession((session) => {
+            sessions.delete(session.id);
+            setContext({ debug: sessions.size > 0 });
+        })
+    ];
+
+    try{
+        const git = await getGit();
+
+        if(git){
+            const update = (): void => setContext({ branches: branches(git) });
+            const watch = (repository: Repository): void => {
+                disposables.push(repository.state.onDidChange(update));
+            };
+
+            git.repositories.forEach(watch);
+            disposables.push(
+                git.onDidOpenRepository((repository) => {
+                    watch(repository);
+                    update();
+                }),
+                git.onDidCloseRepository(update)
+            );
+
+            update();
+        }
+    }catch(error){
+        logError("context", "Failed to read the git extension", error);
+    }
+
+    return { dispose: () => disposables.forEach((disposable) => disposable.dispose()) };
+};
@@ -0,0 +1,83 @@
+import { Disposable, ExtensionContext, window } from "vscode";
+
+import { get, getCSS, update, uis } from "../extension/config";
+import { getConfigurationProperty } from "../extension/package";
+import { setSafeMode } from "../extension/runtime";
+import { round } from "../lib/math";
+import { logInfo } from "../lib/log";
+
+type Session = {
+    opacity: number,
+    blurs: number[]
+};
+
+const storageKey = "background.recovery.v1";
+
+// backgrounds above this opacity that are drawn over the UI make it hard to use
+const threshold = 0.6;
+
+// losing focus this often within the window usually means the settings are being fixed from outside VSCode
+const blurLimit = 3;
+const blurWindow = 60 * 1000;
+
+// highest opacity of a background drawn over the UI, backgrounds under the content never cover it
+const coverage = (): number =>
+    get("renderContentAboveBackground") || get("renderTextAboveBackground")
+        ? 0
+        : Math.max(...uis.map((ui) => {
+            const opacity = +getCSS("backgroundOpacity", ui);
+            return get("useInvertedOpacity") ? 1 - opacity : opacity;
+        }));
+
+const isUnusable = (session: Session): boolean =>
+    session.opacity > threshold &&
+    session.blurs.length >= blurLimit &&
+    session.blurs[session.blurs.length - 1] - session.blurs[0] <= blurWindow;
+
+// same as the setting default, see get in config.ts for the inverted default
+const defaults = (): number[] =>
+    (getConfigurationProperty("backgroundOpacity").default as number[]).map((opacity) => get("useInvertedOpacity") ? round(1 - opacity, 2) : opacity);
+
+const recover = (opacity: number): void => {
+    setSafeMode(true); // the prompt could be covered by the background
+    logInfo("recovery", `Hid backgrounds, the last session used an opacity of ${round(opacity, 2)} and lost focus repeatedly`);
+
+    window.showWarningMessage(
+        "Background opacity may have made VSCode unusable, reset the background opacity?",
+        {
+            detail: `The last session used a background opacity of ${round(opacity, 2)} over the UI. Backgrounds are hidden until you choose an option or run 'Background: Toggle Safe Mode'.`
+        },
+        "Reset Opacity",
+        "Keep"
+    ).then(async (value?: string) => {
+        if(value === "Reset Opacity"){
+            await update("backgroundOpacity", defaults());
+            logInfo("recovery", "Reset background opacity to the default");
+        }
+
+        value && setSafeMode(false);
+    });
+};
+
+export const startRecovery = (context: ExtensionContext): Disposable => {
+    const previous = context.globalState.get<Session>(storageKey);
+    const session: Session = { opacity: coverage(), blurs: [] };
+
+    context.globalState.update(storageKey, session);
+
+    if(previous && isUnusable(previous) && coverage() > threshold){
+        recover(previous.opacity);
+    }
+
+    return window.onDidChangeWindowState(({ focused }) => {
+        const opacity = coverage();
+
+        if(focused || opacity <= threshold){
+            return;
+        }
+
+        session.opacity = opacity;
+        session.blurs = [...session.blurs, Date.now()].slice(-blurLimit);
+        context.globalState.update(storageKey, session);
+    });
+};
@@ -1,6 +1,7 @@
 import { ConfigurationTarget, workspace } from "vscode";
 
 import { install } from "../extension/writer";
+import { isLive, writeState } from "../extension/runtime";
 import { StateStore } from "../state/store";
 
 export const applyWallpaper = async (store: StateStore, workbench: string, product: string, url: string, source: "wallhaven" | "collection", wallhavenId?: string): Promise<void> => {
@@ -18,5 +19,10 @@ export const applyWallpaper = async (store: StateStore, workbench: string, produ
         appliedAt: new Date().toISOString()
     });
 
-    install(workbench, product, false);
+    // installed script picks up the new wallpaper from the state file, no reload required
+    if(isLive()){
+        writeState();
+    }else{
+        install(workbench, product, false);
+    }
 };